@@ -0,0 +1,586 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Strava API, for development and automated tests.
+ *
+ *   npm run mock-strava
+ *   REACT_APP_STRAVA_ORIGIN=http://localhost:4000 npm start
+ *
+ * Serves OAuth (authorize/token/refresh), the athlete, activities from
+ * fixtures/, generated streams and photos, uploads, and Strava-style rate
+ * limit headers.
+ * Failures can be injected through the /__mock endpoints - see README.md.
+ */
+const http = require('http');
+const path = require('path');
+const fs = require('fs');
+
+const PORT = Number(process.env.PORT || 4000);
+// Seconds until an access token expires
+const TOKEN_TTL = Number(process.env.MOCK_TOKEN_TTL || 6 * 60 * 60);
+// "<15 minute limit>,<daily limit>", like Strava's X-RateLimit-Limit
+const [SHORT_LIMIT, DAILY_LIMIT] = (process.env.MOCK_RATE_LIMIT || '100,1000').split(',').map(Number);
+const SCOPE = 'read,activity:read_all,activity:write';
+
+const loadFixture = name => JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'));
+
+let state;
+
+function reset() {
+  state = {
+    athlete: loadFixture('athlete.json'),
+    activities: loadFixture('activities.json'),
+    accessTokens: new Map(), // token -> expires_at (epoch seconds)
+    refreshTokens: new Set(),
+    failures: [], // { status, count, path? }
+    uploads: new Map(), // id -> { upload, name, polls }
+    nextUploadId: 1,
+    usage: { short: 0, daily: 0, shortWindow: 0, day: '' },
+    requests: 0,
+  };
+}
+
+const UPLOAD_DATA_TYPES = ['fit', 'fit.gz', 'tcx', 'tcx.gz', 'gpx', 'gpx.gz'];
+
+// ============ HELPERS ============
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const stravaError = (message, resource, field, code) => ({ message, errors: [{ resource, field, code }] });
+
+const readBody = req => new Promise(resolve => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    if (!data) return resolve({});
+    try {
+      resolve(JSON.parse(data));
+    } catch {
+      resolve(Object.fromEntries(new URLSearchParams(data)));
+    }
+  });
+});
+
+const randomToken = () => Array.from({ length: 40 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+/** Text fields of a multipart form; file fields become { filename, size } */
+const readMultipart = req => new Promise(resolve => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const fields = {};
+    const boundary = (req.headers['content-type'] || '').match(/boundary=(?:"([^"]+)"|([^;]+))/);
+    if (!boundary) return resolve(fields);
+    const body = Buffer.concat(chunks).toString('latin1');
+    for (const part of body.split(`--${boundary[1] || boundary[2]}`)) {
+      const headerEnd = part.indexOf('\r\n\r\n');
+      const name = part.slice(0, headerEnd).match(/; name="([^"]*)"/);
+      if (headerEnd < 0 || !name) continue;
+      const filename = part.slice(0, headerEnd).match(/; filename="([^"]*)"/);
+      const value = part.slice(headerEnd + 4, part.length - 2); // drop the trailing CRLF
+      fields[name[1]] = filename ? { filename: filename[1], size: value.length } : value;
+    }
+    resolve(fields);
+  });
+});
+
+function issueTokens() {
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL;
+  state.accessTokens.set(accessToken, expiresAt);
+  state.refreshTokens.add(refreshToken);
+  return {
+    token_type: 'Bearer',
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_at: expiresAt,
+    expires_in: TOKEN_TTL,
+  };
+}
+
+/** Count a request against both windows; returns the headers to send */
+function countRequest() {
+  const now = new Date();
+  const shortWindow = Math.floor(now.getTime() / (15 * 60 * 1000));
+  const day = now.toISOString().slice(0, 10);
+  if (state.usage.shortWindow !== shortWindow) {
+    state.usage.shortWindow = shortWindow;
+    state.usage.short = 0;
+  }
+  if (state.usage.day !== day) {
+    state.usage.day = day;
+    state.usage.daily = 0;
+  }
+  state.usage.short++;
+  state.usage.daily++;
+  return {
+    'X-RateLimit-Limit': `${SHORT_LIMIT},${DAILY_LIMIT}`,
+    'X-RateLimit-Usage': `${state.usage.short},${state.usage.daily}`,
+  };
+}
+
+function takeFailure(pathname) {
+  const index = state.failures.findIndex(f => !f.path || pathname.includes(f.path));
+  if (index < 0) return undefined;
+  const failure = state.failures[index];
+  if (--failure.count <= 0) state.failures.splice(index, 1);
+  return failure;
+}
+
+// Google encoded polyline, as used by map.summary_polyline
+function encodePolyline(points) {
+  let lastLat = 0;
+  let lastLng = 0;
+  let result = '';
+  const encode = value => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = '';
+    while (v >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    return chunk + String.fromCharCode(v + 63);
+  };
+  for (const [lat, lng] of points) {
+    const latE5 = Math.round(lat * 1e5);
+    const lngE5 = Math.round(lng * 1e5);
+    result += encode(latE5 - lastLat) + encode(lngE5 - lastLng);
+    lastLat = latE5;
+    lastLng = lngE5;
+  }
+  return result;
+}
+
+/** Deterministic streams: a loop starting and ending at start_latlng */
+function generateStreams(activity) {
+  const samples = Math.max(2, Math.min(4000, Math.round(activity.moving_time / 5)));
+  const radius = activity.distance / (2 * Math.PI); // metres
+  const [lat0, lng0] = activity.start_latlng || [40.015, -105.2705];
+  const metresPerDegLat = 111320;
+  const metresPerDegLng = 111320 * Math.cos((lat0 * Math.PI) / 180);
+  const isRide = /Ride/.test(activity.type);
+  const streams = {
+    time: [], distance: [], latlng: [], altitude: [], velocity_smooth: [],
+    moving: [], grade_smooth: [], heartrate: [], cadence: [], watts: [],
+  };
+
+  for (let i = 0; i < samples; i++) {
+    const f = i / (samples - 1);
+    const angle = f * 2 * Math.PI;
+    // Centre is one radius north, so the loop starts and ends at the start point
+    const north = radius - radius * Math.cos(angle);
+    const east = radius * Math.sin(angle);
+    const wobble = Math.sin(angle * 7 + activity.id);
+    streams.time.push(Math.round(f * activity.moving_time));
+    streams.distance.push(Math.round(f * activity.distance * 10) / 10);
+    streams.latlng.push([
+      Math.round((lat0 + north / metresPerDegLat) * 1e6) / 1e6,
+      Math.round((lng0 + east / metresPerDegLng) * 1e6) / 1e6,
+    ]);
+    streams.altitude.push(Math.round((1650 + 30 * Math.sin(angle * 2) + 5 * wobble) * 10) / 10);
+    streams.velocity_smooth.push(Math.round(activity.average_speed * (1 + 0.08 * wobble) * 100) / 100);
+    streams.moving.push(true);
+    streams.grade_smooth.push(Math.round(6 * Math.cos(angle * 2) * 10) / 10);
+    streams.heartrate.push(Math.round((activity.average_heartrate || 140) + 12 * Math.sin(angle) + 3 * wobble));
+    streams.cadence.push(Math.round((isRide ? 88 : 84) + 3 * wobble));
+    streams.watts.push(Math.round((activity.average_watts || 180) * (1 + 0.15 * wobble)));
+  }
+
+  if (!activity.has_heartrate) delete streams.heartrate;
+  if (!activity.device_watts) delete streams.watts;
+  return streams;
+}
+
+const withMap = activity => {
+  const latlng = generateStreams(activity).latlng;
+  return {
+    ...activity,
+    map: {
+      id: `a${activity.id}`,
+      summary_polyline: encodePolyline(latlng.filter((_, i) => i % 10 === 0 || i === latlng.length - 1)),
+      resource_state: 2,
+    },
+  };
+};
+
+function detailedActivity(activity) {
+  const kms = Math.floor(activity.distance / 1000);
+  const splitTime = activity.moving_time / Math.max(activity.distance / 1000, 1);
+  return {
+    ...withMap(activity),
+    resource_state: 3,
+    description: activity.description ?? '',
+    calories: Math.round(activity.moving_time / 60 * 11),
+    device_name: 'Mock Watch',
+    segment_efforts: [],
+    splits_metric: Array.from({ length: kms }, (_, i) => ({
+      split: i + 1,
+      distance: 1000,
+      moving_time: Math.round(splitTime),
+      elapsed_time: Math.round(splitTime),
+      elevation_difference: 0,
+      average_speed: Math.round(1000 / splitTime * 100) / 100,
+      pace_zone: 0,
+    })),
+    laps: generateLaps(activity),
+    best_efforts: [],
+    photos: {
+      primary: activity.photo_count > 0 ? { unique_id: `${activity.id}-1`, source: 1 } : null,
+      count: activity.photo_count || 0,
+    },
+    hide_from_home: activity.hide_from_home ?? false,
+  };
+}
+
+/** One lap per 5 km, like an auto-lap setting */
+function generateLaps(activity) {
+  const count = Math.max(1, Math.ceil(activity.distance / 5000));
+  const size = generateStreams(activity).time.length;
+  return Array.from({ length: count }, (_, i) => {
+    const distance = Math.min(5000, activity.distance - i * 5000);
+    const movingTime = Math.round(activity.moving_time * distance / activity.distance);
+    return {
+      id: activity.id * 100 + i,
+      name: `Lap ${i + 1}`,
+      lap_index: i + 1,
+      distance,
+      moving_time: movingTime,
+      elapsed_time: movingTime,
+      start_index: Math.floor(size * i / count),
+      end_index: Math.floor(size * (i + 1) / count) - 1,
+      average_speed: activity.average_speed,
+      average_heartrate: activity.average_heartrate,
+    };
+  });
+}
+
+const HR_ZONE_BOUNDS = [0, 123, 153, 169, 184, -1];
+
+function generateZones(activity) {
+  if (!activity.has_heartrate) return [];
+  const { heartrate, time } = generateStreams(activity);
+  const buckets = HR_ZONE_BOUNDS.slice(0, -1).map((min, i) => ({ min, max: HR_ZONE_BOUNDS[i + 1], time: 0 }));
+  heartrate.forEach((hr, i) => {
+    const step = i < time.length - 1 ? time[i + 1] - time[i] : 0;
+    const bucket = buckets.find(b => b.max === -1 || hr < b.max);
+    bucket.time += step;
+  });
+  return [{ type: 'heartrate', sensor_based: true, custom_zones: false, distribution_buckets: buckets }];
+}
+
+/** Strava's totals only include activities visible to everyone */
+function athleteStats() {
+  const year = new Date().getFullYear();
+  const sports = { run: ['Run', 'TrailRun', 'VirtualRun'], ride: ['Ride', 'VirtualRide', 'EBikeRide', 'MountainBikeRide', 'GravelRide'], swim: ['Swim'] };
+  const stats = { biggest_ride_distance: 0, biggest_climb_elevation_gain: 0 };
+  for (const [sport, types] of Object.entries(sports)) {
+    const matching = state.activities.filter(a => types.includes(a.type) && !a.private && (!a.visibility || a.visibility === 'everyone'));
+    const total = list => ({
+      count: list.length,
+      distance: list.reduce((sum, a) => sum + a.distance, 0),
+      moving_time: list.reduce((sum, a) => sum + a.moving_time, 0),
+      elapsed_time: list.reduce((sum, a) => sum + a.elapsed_time, 0),
+      elevation_gain: list.reduce((sum, a) => sum + a.total_elevation_gain, 0),
+    });
+    const recentSince = Date.now() - 28 * 24 * 60 * 60 * 1000;
+    stats[`recent_${sport}_totals`] = total(matching.filter(a => Date.parse(a.start_date) >= recentSince));
+    stats[`ytd_${sport}_totals`] = total(matching.filter(a => new Date(a.start_date_local).getFullYear() === year));
+    stats[`all_${sport}_totals`] = total(matching);
+  }
+  return stats;
+}
+
+/** `photo_count` photos spread around the generated route, served from /photos */
+function generatePhotos(activity, origin) {
+  const latlng = generateStreams(activity).latlng;
+  return Array.from({ length: activity.photo_count || 0 }, (_, i) => {
+    const uniqueId = `${activity.id}-${i + 1}`;
+    return {
+      unique_id: uniqueId,
+      activity_id: activity.id,
+      resource_state: 2,
+      caption: `${activity.name} photo ${i + 1}`,
+      source: 1,
+      urls: { 1024: `${origin}/photos/${uniqueId}.svg` },
+      location: latlng[Math.floor(((i + 1) / (activity.photo_count + 1)) * latlng.length)],
+      created_at: activity.start_date,
+      default_photo: i === 0,
+    };
+  });
+}
+
+function photoSvg(uniqueId) {
+  const hue = [...uniqueId].reduce((sum, c) => sum + c.charCodeAt(0), 0) * 37 % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">
+  <rect width="1024" height="768" fill="hsl(${hue}, 55%, 55%)"/>
+  <text x="512" y="400" font-family="sans-serif" font-size="64" text-anchor="middle" fill="white">${uniqueId}</text>
+</svg>`;
+}
+
+/** Uploads finish processing on their second status check */
+function pollUpload(entry) {
+  const { upload } = entry;
+  if (upload.error || upload.activity_id) return upload;
+  if (++entry.polls < 2) return upload;
+
+  const id = Math.max(...state.activities.map(a => a.id)) + 1;
+  const start = new Date();
+  state.activities.push({
+    ...state.activities[0],
+    id,
+    name: entry.name || 'Uploaded Activity',
+    external_id: upload.external_id,
+    start_date: start.toISOString(),
+    start_date_local: start.toISOString(),
+    photo_count: 0,
+  });
+  upload.status = 'Your activity is ready.';
+  upload.activity_id = id;
+  return upload;
+}
+
+// ============ ROUTES ============
+
+async function handleApi(req, res, url, rateHeaders) {
+  const auth = req.headers.authorization || '';
+  const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
+  const expiresAt = state.accessTokens.get(token);
+  if (!expiresAt || expiresAt * 1000 < Date.now()) {
+    return send(res, 401, stravaError('Authorization Error', 'Athlete', 'access_token', 'invalid'), rateHeaders);
+  }
+
+  const route = url.pathname.replace(/^\/api\/v3/, '');
+  let match;
+
+  if (req.method === 'GET' && route === '/athlete') {
+    return send(res, 200, state.athlete, rateHeaders);
+  }
+
+  if (req.method === 'GET' && route === '/athlete/activities') {
+    const page = Number(url.searchParams.get('page') || 1);
+    const perPage = Math.min(Number(url.searchParams.get('per_page') || 30), 200);
+    const before = url.searchParams.get('before');
+    const after = url.searchParams.get('after');
+    let list = state.activities.filter(a => {
+      const start = Date.parse(a.start_date) / 1000;
+      return (before === null || start < Number(before)) && (after === null || start > Number(after));
+    });
+    list.sort((a, b) => Date.parse(b.start_date) - Date.parse(a.start_date));
+    // Strava lists oldest first when only `after` is given
+    if (after !== null && before === null) list.reverse();
+    list = list.slice((page - 1) * perPage, page * perPage);
+    return send(res, 200, list.map(withMap), rateHeaders);
+  }
+
+  if (req.method === 'GET' && (match = route.match(/^\/athletes\/(\d+)\/stats$/))) {
+    if (Number(match[1]) !== state.athlete.id) {
+      return send(res, 404, stravaError('Record Not Found', 'Athlete', 'id', 'not found'), rateHeaders);
+    }
+    return send(res, 200, athleteStats(), rateHeaders);
+  }
+
+  if (req.method === 'GET' && (match = route.match(/^\/activities\/(\d+)\/(laps|zones|photos)$/))) {
+    const activity = state.activities.find(a => a.id === Number(match[1]));
+    if (!activity) {
+      return send(res, 404, stravaError('Record Not Found', 'Activity', 'id', 'not found'), rateHeaders);
+    }
+    if (match[2] === 'photos') {
+      return send(res, 200, generatePhotos(activity, url.origin), rateHeaders);
+    }
+    return send(res, 200, match[2] === 'laps' ? generateLaps(activity) : generateZones(activity), rateHeaders);
+  }
+
+  if (req.method === 'POST' && route === '/uploads') {
+    const form = await readMultipart(req);
+    if (!form.file || typeof form.file !== 'object') {
+      return send(res, 400, stravaError('Bad Request', 'Upload', 'file', 'empty'), rateHeaders);
+    }
+    if (!UPLOAD_DATA_TYPES.includes(form.data_type)) {
+      return send(res, 400, stravaError('Bad Request', 'Upload', 'data_type', 'invalid'), rateHeaders);
+    }
+    const externalId = form.external_id || form.file.filename;
+    // Uploading the same external_id twice fails like Strava's duplicate check
+    const duplicate = state.activities.find(a => a.external_id === externalId);
+    const id = state.nextUploadId++;
+    const upload = {
+      id,
+      id_str: String(id),
+      external_id: externalId,
+      error: duplicate ? `${form.file.filename} duplicate of <a href='/activities/${duplicate.id}' target='_blank'>${duplicate.id}</a>` : null,
+      status: duplicate ? 'There was an error processing your activity.' : 'Your activity is still being processed.',
+      activity_id: null,
+    };
+    state.uploads.set(id, { upload, name: form.name, polls: 0 });
+    return send(res, 201, upload, rateHeaders);
+  }
+
+  if (req.method === 'GET' && (match = route.match(/^\/uploads\/(\d+)$/))) {
+    const entry = state.uploads.get(Number(match[1]));
+    if (!entry) {
+      return send(res, 404, stravaError('Record Not Found', 'Upload', 'id', 'not found'), rateHeaders);
+    }
+    return send(res, 200, pollUpload(entry), rateHeaders);
+  }
+
+  if ((match = route.match(/^\/activities\/(\d+)(\/streams)?$/))) {
+    const activity = state.activities.find(a => a.id === Number(match[1]));
+    if (!activity) {
+      return send(res, 404, stravaError('Record Not Found', 'Activity', 'id', 'not found'), rateHeaders);
+    }
+
+    if (match[2] && req.method === 'GET') {
+      const streams = generateStreams(activity);
+      const keys = (url.searchParams.get('keys') || 'time,distance').split(',').filter(k => streams[k]);
+      const series = keys.map(type => ({
+        type,
+        data: streams[type],
+        series_type: 'distance',
+        original_size: streams[type].length,
+        resolution: 'high',
+      }));
+      const keyed = url.searchParams.get('key_by_type') === 'true';
+      return send(res, 200, keyed ? Object.fromEntries(series.map(s => [s.type, s])) : series, rateHeaders);
+    }
+
+    if (!match[2] && req.method === 'GET') {
+      return send(res, 200, detailedActivity(activity), rateHeaders);
+    }
+
+    if (!match[2] && req.method === 'PUT') {
+      const body = await readBody(req);
+      for (const field of ['name', 'type', 'sport_type', 'description', 'commute', 'trainer', 'hide_from_home']) {
+        if (body[field] !== undefined) activity[field] = body[field];
+      }
+      if (body.gear_id !== undefined) {
+        activity.gear_id = body.gear_id === 'none' ? null : body.gear_id;
+      }
+      return send(res, 200, detailedActivity(activity), rateHeaders);
+    }
+  }
+
+  return send(res, 404, stravaError('Record Not Found', 'Resource', 'path', 'not found'), rateHeaders);
+}
+
+async function handleOAuth(req, res, url) {
+  if (req.method === 'GET' && url.pathname === '/oauth/authorize') {
+    // Approve straight away and send the browser back with a code
+    const redirect = new URL(url.searchParams.get('redirect_uri') || 'http://localhost:3000');
+    redirect.searchParams.set('code', 'mock-authorization-code');
+    redirect.searchParams.set('scope', url.searchParams.get('scope') || SCOPE);
+    if (url.searchParams.get('state')) redirect.searchParams.set('state', url.searchParams.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/oauth/token') {
+    const body = await readBody(req);
+    if (!body.client_id || !body.client_secret) {
+      return send(res, 400, stravaError('Bad Request', 'Application', 'client_id', 'invalid'));
+    }
+    if (body.grant_type === 'authorization_code') {
+      if (!body.code) {
+        return send(res, 400, stravaError('Bad Request', 'AuthorizationCode', 'code', 'invalid'));
+      }
+      return send(res, 200, { ...issueTokens(), scope: SCOPE, athlete: state.athlete });
+    }
+    if (body.grant_type === 'refresh_token') {
+      if (!state.refreshTokens.has(body.refresh_token)) {
+        return send(res, 400, stravaError('Bad Request', 'RefreshToken', 'refresh_token', 'invalid'));
+      }
+      // Strava rotates the refresh token on every refresh
+      state.refreshTokens.delete(body.refresh_token);
+      return send(res, 200, issueTokens());
+    }
+    return send(res, 400, stravaError('Bad Request', 'RefreshToken', 'grant_type', 'invalid'));
+  }
+
+  return send(res, 404, stravaError('Record Not Found', 'Resource', 'path', 'not found'));
+}
+
+/** Test controls: inject failures, expire tokens, reset, inspect */
+async function handleControl(req, res, url) {
+  if (req.method === 'POST' && url.pathname === '/__mock/failures') {
+    const { status = 500, count = 1, path: pathFilter } = await readBody(req);
+    state.failures.push({ status: Number(status), count: Number(count), path: pathFilter });
+    return send(res, 200, { failures: state.failures });
+  }
+  if (req.method === 'POST' && url.pathname === '/__mock/expire-tokens') {
+    state.accessTokens.forEach((_, token) => state.accessTokens.set(token, 0));
+    return send(res, 200, { expired: state.accessTokens.size });
+  }
+  if (req.method === 'POST' && url.pathname === '/__mock/reset') {
+    reset();
+    return send(res, 200, { ok: true });
+  }
+  if (req.method === 'GET' && url.pathname === '/__mock/state') {
+    return send(res, 200, {
+      requests: state.requests,
+      usage: state.usage,
+      failures: state.failures,
+      activeTokens: state.accessTokens.size,
+      activities: state.activities.length,
+    });
+  }
+  return send(res, 404, { message: 'Unknown mock control' });
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  // Browsers only let the app read these when they're exposed
+  res.setHeader('Access-Control-Expose-Headers', 'X-RateLimit-Limit, X-RateLimit-Usage, Retry-After');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  try {
+    if (url.pathname.startsWith('/__mock/')) return await handleControl(req, res, url);
+    // Photo images, like Strava's CDN: no token needed
+    const photo = req.method === 'GET' && url.pathname.match(/^\/photos\/([\w-]+)\.svg$/);
+    if (photo) {
+      res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+      return res.end(photoSvg(photo[1]));
+    }
+    if (url.pathname.startsWith('/oauth/')) {
+      const failure = takeFailure(url.pathname);
+      if (failure) return send(res, failure.status, { message: 'Injected failure' });
+      return await handleOAuth(req, res, url);
+    }
+    if (url.pathname.startsWith('/api/v3/')) {
+      state.requests++;
+      const rateHeaders = countRequest();
+      const failure = takeFailure(url.pathname);
+      if (failure) {
+        const body = failure.status === 429 ? { message: 'Rate Limit Exceeded' }
+          : failure.status === 401 ? stravaError('Authorization Error', 'Athlete', 'access_token', 'invalid')
+          : { message: 'Injected failure' };
+        return send(res, failure.status, body, rateHeaders);
+      }
+      if (state.usage.short > SHORT_LIMIT || state.usage.daily > DAILY_LIMIT) {
+        return send(res, 429, { message: 'Rate Limit Exceeded' }, rateHeaders);
+      }
+      return await handleApi(req, res, url, rateHeaders);
+    }
+    send(res, 404, stravaError('Record Not Found', 'Resource', 'path', 'not found'));
+  } catch (error) {
+    console.error(error);
+    send(res, 500, { message: 'Mock server error' });
+  }
+});
+
+reset();
+
+if (require.main === module) {
+  server.listen(PORT, () => {
+    console.log(`Mock Strava listening on http://localhost:${PORT}`);
+    console.log(`Start the app with REACT_APP_STRAVA_ORIGIN=http://localhost:${PORT}`);
+  });
+}
+
+module.exports = { server, reset };
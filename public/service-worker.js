@@ -5,7 +5,8 @@ self.addEventListener('install', (event) => {
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim());
+  // Photos used to be cached here; they now live in each profile's IndexedDB
+  event.waitUntil(Promise.all([clients.claim(), caches.delete('strava-photos-v1')]));
 });
 
 self.addEventListener('fetch', (event) => {
@@ -21,7 +22,7 @@ self.addEventListener('fetch', (event) => {
           const cache = await caches.open(CACHE_NAME);
 
           for (const file of files) {
-            if (file instanceof File && file.name.toLowerCase().endsWith('.fit')) {
+            if (file instanceof File && /\.(fit|gpx|tcx)$/i.test(file.name)) {
               const response = new Response(file, {
                 headers: { 'Content-Type': 'application/octet-stream' },
               });
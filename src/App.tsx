@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Routes, Route, Link, useLocation } from 'react-router-dom';
 import Settings from './components/Settings';
 import Activities from './components/Activities';
@@ -7,14 +7,54 @@ import ActivityMap from './components/ActivityMap';
 import PersonalRecords from './components/PersonalRecords';
 import SegmentsPage from './components/Segments';
 import RoutesPage from './components/Routes';
+import GearPage from './components/Gear';
 import ReleaseNotes from './components/ReleaseNotes';
 import FitImport from './components/FitImport';
+import JobProgress from './components/JobProgress';
+import StravaAuthStatus from './components/StravaAuthStatus';
 import { useTheme } from './context/ThemeContext';
+import { profileService } from './services/profileService';
+import { jobQueueService } from './services/jobQueueService';
+import { stravaEditService } from './services/stravaEditService';
 import './App.css';
 
 function App() {
   const location = useLocation();
   const { isDark, toggleTheme } = useTheme();
+  const profiles = profileService.getProfiles();
+  const activeProfileId = profileService.getActiveProfileId();
+
+  useEffect(() => {
+    // Carry on with background jobs interrupted by a reload
+    jobQueueService.start().catch(err => console.error('Failed to start job queue:', err));
+    // Send Strava edits made while offline
+    stravaEditService.start();
+  }, []);
+
+  useEffect(() => {
+    // Another tab switched profiles - this tab's database is now the wrong one
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === 'activeProfile' && e.newValue !== activeProfileId) {
+        window.location.reload();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [activeProfileId]);
+
+  const handleProfileChange = (value: string) => {
+    if (value !== '__new') {
+      profileService.switchProfile(value);
+      return;
+    }
+    const name = prompt('Name for the new profile:');
+    if (!name) return;
+    try {
+      profileService.switchProfile(profileService.createProfile(name).id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create profile');
+    }
+  };
 
   return (
     <div className="App">
@@ -54,6 +94,12 @@ function App() {
             >
               Routes
             </Link>
+            <Link 
+              to="/gear" 
+              className={`nav-link ${location.pathname === '/gear' ? 'active' : ''}`}
+            >
+              Gear
+            </Link>
             <Link 
               to="/settings" 
               className={`nav-link ${location.pathname === '/settings' ? 'active' : ''}`}
@@ -61,10 +107,24 @@ function App() {
               Settings
             </Link>
           </div>
+          <JobProgress />
+          <StravaAuthStatus />
+          <select
+            value={activeProfileId}
+            onChange={(e) => handleProfileChange(e.target.value)}
+            aria-label="Active profile"
+            title="Switch profile"
+            style={{ marginLeft: 'auto', padding: '0.25rem 0.5rem', borderRadius: '4px', fontSize: '0.9rem' }}
+          >
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>👤 {p.name}</option>
+            ))}
+            <option value="__new">+ New profile…</option>
+          </select>
           <button
             onClick={toggleTheme}
             className="nav-link"
-            style={{ marginLeft: 'auto', cursor: 'pointer', background: 'none', border: 'none', fontSize: '1.2rem' }}
+            style={{ cursor: 'pointer', background: 'none', border: 'none', fontSize: '1.2rem' }}
             aria-label={isDark ? 'Switch to light mode' : 'Switch to dark mode'}
           >
             {isDark ? '☀️' : '🌙'}
@@ -83,6 +143,7 @@ function App() {
           <Route path="/activity/:id/map" element={<ActivityMap />} />
           <Route path="/segments" element={<SegmentsPage />} />
           <Route path="/routes" element={<RoutesPage />} />
+          <Route path="/gear" element={<GearPage />} />
           <Route path="/import" element={<FitImport />} />
         </Routes>
       </div>
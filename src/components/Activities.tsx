@@ -1,31 +1,36 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { stravaService } from '../services/stravaService';
-import { Activity, db } from '../services/database';
+import { stravaSyncService, SyncProgress } from '../services/stravaSyncService';
+import { ActivityView, ActivityCollection, SyncState, db } from '../services/database';
+import { collectionService } from '../services/collectionService';
+import { jobQueueService } from '../services/jobQueueService';
+import { gearService, GearStats } from '../services/gearService';
 import { useThemeColors } from '../context/ThemeContext';
+import RateLimitStatus from './RateLimitStatus';
 
 const Activities: React.FC = () => {
   const colors = useThemeColors();
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [filteredActivities, setFilteredActivities] = useState<Activity[]>([]);
+  const [activities, setActivities] = useState<ActivityView[]>([]);
+  const [filteredActivities, setFilteredActivities] = useState<ActivityView[]>([]);
   const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [loadingStreams, setLoadingStreams] = useState(false);
-  const [streamProgress, setStreamProgress] = useState({ current: 0, total: 0 });
-  const [segmentProgress, setSegmentProgress] = useState({ current: 0, total: 0 });
-  const [calculatingAllPRs, setCalculatingAllPRs] = useState(false);
-  const [allPRsProgress, setAllPRsProgress] = useState({ current: 0, total: 0 });
+  const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMoreData, setHasMoreData] = useState(true);
   const [autoFetch, setAutoFetch] = useState(true);
   const [filters, setFilters] = useState({
     type: '',
     search: '',
     dateFrom: '',
-    dateTo: ''
+    dateTo: '',
+    tag: '',
+    collectionId: ''
   });
+  const [tagMap, setTagMap] = useState<Map<string, string[]>>(new Map());
+  const [collections, setCollections] = useState<ActivityCollection[]>([]);
+  const [gearWarnings, setGearWarnings] = useState<GearStats[]>([]);
   const navigate = useNavigate();
 
   const applyFilters = useCallback(() => {
@@ -61,8 +66,42 @@ const Activities: React.FC = () => {
       );
     }
 
+    if (filters.tag) {
+      filtered = filtered.filter(activity =>
+        (tagMap.get(activity.id) || []).includes(filters.tag)
+      );
+    }
+
+    if (filters.collectionId) {
+      const collection = collections.find(c => c.id === Number(filters.collectionId));
+      if (collection) {
+        filtered = filtered.filter(activity =>
+          collectionService.matchesCollection(collection, activity, tagMap.get(activity.id))
+        );
+      }
+    }
+
     setFilteredActivities(filtered);
-  }, [activities, filters]);
+  }, [activities, filters, tagMap, collections]);
+
+  const loadTagsAndCollections = useCallback(async () => {
+    try {
+      setTagMap(await collectionService.getTagMap());
+      setCollections(await collectionService.getCollections());
+    } catch (error) {
+      console.error('Error loading tags and collections:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    gearService.getRetirementWarnings().then(setGearWarnings).catch(error => {
+      console.error('Error checking gear mileage:', error);
+    });
+  }, [activities]);
+
+  useEffect(() => {
+    loadTagsAndCollections();
+  }, [loadTagsAndCollections]);
 
   useEffect(() => {
     checkAuthAndLoadActivities();
@@ -76,7 +115,7 @@ const Activities: React.FC = () => {
     const code = urlParams.get('code');
     
     if (code) {
-      handleOAuthCallback(code);
+      handleOAuthCallback(code, urlParams.get('scope') || undefined);
     }
   }, []);
 
@@ -94,10 +133,10 @@ const Activities: React.FC = () => {
       setAutoFetch(settings?.autoFetchStrava !== false);
       
       if (authenticated) {
-        await loadActivities(true); // Reset pagination on initial load
+        await loadActivities();
       } else {
         // Load cached activities from unified table
-        const cachedActivities = await db.allActivities.orderBy('start_date_local').reverse().toArray();
+        const cachedActivities = await stravaService.getCachedUnifiedActivities();
         setActivities(cachedActivities);
       }
     } catch (error) {
@@ -108,23 +147,21 @@ const Activities: React.FC = () => {
     }
   }, []);
 
-  const handleOAuthCallback = useCallback(async (code: string) => {
+  const handleOAuthCallback = useCallback(async (code: string, grantedScope?: string) => {
     try {
       setLoading(true);
-      const settings = await stravaService.getSettings();
-      
-      if (!settings?.clientId || !settings?.clientSecret) {
+      if (!stravaService.hasTokenCredentials(await stravaService.getSettings())) {
         setError('Client credentials not found. Please configure them in Settings.');
         return;
       }
 
-      await stravaService.exchangeCodeForToken(code, settings.clientId, settings.clientSecret);
+      await stravaService.exchangeCodeForToken(code, grantedScope);
       
       // Clear the code from URL
       window.history.replaceState({}, document.title, window.location.pathname);
       
       setIsAuthenticated(true);
-      await loadActivities(true);
+      await loadActivities();
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to authenticate');
     } finally {
@@ -132,113 +169,60 @@ const Activities: React.FC = () => {
     }
   }, []);
 
-  const loadActivities = async (reset = false, forceFetch = false) => {
-    try {
-      setError(null);
-      
-      if (reset) {
-        setCurrentPage(1);
-        setHasMoreData(true);
-      }
+  const loadActivities = async (forceFetch = false) => {
+    setError(null);
 
-      const pageToLoad = reset ? 1 : currentPage;
-      
-      const shouldFetch = forceFetch || autoFetch;
-      
-      if (shouldFetch) {
-        // Fetch fresh data from API (Strava service writes to both old + new tables)
-        const freshActivities = await stravaService.getActivities(pageToLoad, 30);
-        // Check if there's more data
-        if (freshActivities.length < 30) {
-          setHasMoreData(false);
-        } else {
-          setCurrentPage(prev => prev + 1);
-        }
-      } else {
-        setHasMoreData(false);
-      }
-      
-      // Load all from unified table
-      const allActivities = await db.allActivities.orderBy('start_date_local').reverse().toArray();
-      
-      if (reset) {
-        setActivities(allActivities);
-      } else {
-        setActivities(prev => {
-          const existingIds = new Set(prev.map(a => a.id));
-          const newOnes = allActivities.filter(a => !existingIds.has(a.id));
-          return [...prev, ...newOnes];
-        });
+    if (forceFetch || autoFetch) {
+      setSyncing(true);
+      try {
+        // Pulls only what's new, or carries on with an unfinished backfill
+        setSyncState(await stravaSyncService.sync(setSyncProgress));
+      } catch (error) {
+        console.error('Error syncing activities:', error);
+        setError(error instanceof Error ? error.message : 'Failed to sync activities');
+        setSyncState(await stravaSyncService.getState());
+      } finally {
+        setSyncing(false);
+        setSyncProgress(null);
       }
-    } catch (error) {
-      console.error('Error loading activities:', error);
-      setError(error instanceof Error ? error.message : 'Failed to load activities');
+    } else {
+      setSyncState(await stravaSyncService.getState());
     }
-  };
 
-  const loadMoreActivities = async () => {
-    if (loadingMore || !hasMoreData) return;
-    
-    setLoadingMore(true);
     try {
-      await loadActivities(false, true);
-    } finally {
-      setLoadingMore(false);
+      setActivities(await stravaService.getCachedUnifiedActivities());
+    } catch (error) {
+      console.error('Error loading activities:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load activities');
     }
   };
 
   const refreshActivities = async () => {
     setLoading(true);
-    await loadActivities(true);
+    await loadActivities();
     setLoading(false);
   };
 
   const fetchFromStrava = async () => {
     setLoading(true);
-    await loadActivities(true, true);
+    await loadActivities(true);
     setLoading(false);
   };
 
+  const resumeBackfill = async () => {
+    await loadActivities(true);
+  };
+
   const initializeSegments = async () => {
     try {
       // Check if we need to calculate segments for cached activities
-      const allActivities = await db.allActivities.toArray();
-      const existingSegments = await db.activitySegments.toArray();
+      const activityIds = await db.allActivities.toCollection().primaryKeys() as string[];
+      const existingSegments = await db.activitySegments.count();
       
       // Only run if we have activities but no segments yet
-      if (allActivities.length > 0 && existingSegments.length === 0) {
-        const stravaActivities = allActivities.filter(a => a.source === 'strava' && a.externalId !== undefined);
-        console.log(`Initializing segments for ${stravaActivities.length} cached activities...`);
-        
-        // Calculate segments in background (non-blocking)
-        setImmediate(async () => {
-          try {
-            let calculatedCount = 0;
-            setSegmentProgress({ current: 0, total: stravaActivities.length });
-            
-            for (let i = 0; i < stravaActivities.length; i++) {
-              const activity = stravaActivities[i];
-              const segments = await stravaService.calculateSegmentsForActivity(activity.externalId!);
-              
-              if (segments.length > 0) {
-                calculatedCount++;
-              }
-              
-              // Update progress
-              setSegmentProgress({ current: i + 1, total: stravaActivities.length });
-              
-              // Small delay to avoid blocking
-              await new Promise(resolve => setTimeout(resolve, 50));
-            }
-            
-            console.log(`Segment initialization complete: ${calculatedCount} activities processed`);
-            // Clear progress after completion
-            setSegmentProgress({ current: 0, total: 0 });
-          } catch (error) {
-            console.warn('Error during segment initialization:', error);
-            setSegmentProgress({ current: 0, total: 0 });
-          }
-        });
+      if (activityIds.length > 0 && existingSegments === 0) {
+        console.log(`Queueing segment initialization for ${activityIds.length} cached activities...`);
+        await jobQueueService.enqueue('recalculateRecords', 'Calculate PRs', activityIds);
       }
     } catch (error) {
       console.warn('Segment initialization check failed:', error);
@@ -246,90 +230,26 @@ const Activities: React.FC = () => {
   };
 
   const fetchAllStreamData = async () => {
-    if (!isAuthenticated || loadingStreams) return;
-    
-    setLoadingStreams(true);
+    if (!isAuthenticated) return;
     setError(null);
     
     try {
       const activitiesToProcess = (filteredActivities.length > 0 ? filteredActivities : activities)
         .filter(a => a.source === 'strava' && a.externalId !== undefined);
-      setStreamProgress({ current: 0, total: activitiesToProcess.length });
-      
-      let successCount = 0;
-      let errorCount = 0;
-      
-      for (let i = 0; i < activitiesToProcess.length; i++) {
-        const activity = activitiesToProcess[i];
-        setStreamProgress({ current: i + 1, total: activitiesToProcess.length });
-        
-        try {
-          // Fetch detailed activity data with streams
-          await stravaService.getActivityDetail(activity.externalId!);
-          successCount++;
-          
-          // Small delay to avoid rate limiting
-          if (i < activitiesToProcess.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
-        } catch (error) {
-          console.error(`Error fetching streams for activity ${activity.id}:`, error);
-          errorCount++;
-        }
-      }
-      
-      // Show completion message
-      const message = `Stream data fetch completed: ${successCount} successful, ${errorCount} failed`;
-      if (errorCount === 0) {
-        alert(`✅ ${message}`);
-      } else {
-        alert(`⚠️ ${message}`);
-      }
-      
+      await jobQueueService.enqueue('fetchStreams', 'Fetch streams', activitiesToProcess.map(a => a.id));
     } catch (error) {
-      console.error('Error during bulk stream fetch:', error);
-      setError('Failed to fetch stream data. Please try again.');
-    } finally {
-      setLoadingStreams(false);
-      setStreamProgress({ current: 0, total: 0 });
+      console.error('Error queueing stream fetch:', error);
+      setError(error instanceof Error ? error.message : 'Failed to queue stream fetch');
     }
   };
 
   const calculateAllActivityPRs = async () => {
-    const stravaActivities = activities.filter(a => a.source === 'strava' && a.externalId !== undefined);
-    if (stravaActivities.length === 0) return;
-    
-    setCalculatingAllPRs(true);
-    setAllPRsProgress({ current: 0, total: stravaActivities.length });
-    let successCount = 0;
-    let errorCount = 0;
-
+    setError(null);
     try {
-      for (let i = 0; i < stravaActivities.length; i++) {
-        try {
-          const activity = stravaActivities[i];
-          await stravaService.calculateSegmentsForActivity(activity.externalId!);
-          successCount++;
-        } catch (error) {
-          console.warn(`Error calculating PRs for activity:`, error);
-          errorCount++;
-        }
-        setAllPRsProgress({ current: i + 1, total: stravaActivities.length });
-      }
-
-      // Show completion message
-      const message = `PR calculation completed: ${successCount} successful, ${errorCount} failed`;
-      if (errorCount === 0) {
-        alert(`✅ ${message}`);
-      } else {
-        alert(`⚠️ ${message}`);
-      }
+      await jobQueueService.enqueue('recalculateRecords', 'Calculate PRs', activities.map(a => a.id));
     } catch (error) {
-      console.error('Error during bulk PR calculation:', error);
-      setError('Failed to calculate PRs. Please try again.');
-    } finally {
-      setCalculatingAllPRs(false);
-      setAllPRsProgress({ current: 0, total: 0 });
+      console.error('Error queueing PR calculation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to queue PR calculation');
     }
   };
 
@@ -345,10 +265,47 @@ const Activities: React.FC = () => {
       type: '',
       search: '',
       dateFrom: '',
-      dateTo: ''
+      dateTo: '',
+      tag: '',
+      collectionId: ''
     });
   };
 
+  const saveFiltersAsCollection = async () => {
+    const name = prompt('Name this collection:');
+    if (!name) return;
+    try {
+      const id = await collectionService.createCollection(name, {
+        tags: filters.tag ? [filters.tag] : [],
+        type: filters.type,
+        dateFrom: filters.dateFrom,
+        dateTo: filters.dateTo
+      });
+      await loadTagsAndCollections();
+      setFilters({ type: '', search: '', dateFrom: '', dateTo: '', tag: '', collectionId: String(id) });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save collection');
+    }
+  };
+
+  const deleteSelectedCollection = async () => {
+    const collection = collections.find(c => c.id === Number(filters.collectionId));
+    if (!collection || !window.confirm(`Delete the collection "${collection.name}"? Activities are not affected.`)) return;
+    try {
+      await collectionService.deleteCollection(collection.id!);
+      setFilters(prev => ({ ...prev, collectionId: '' }));
+      await loadTagsAndCollections();
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+    }
+  };
+
+  const getAllTags = () => {
+    const tags = new Set<string>();
+    tagMap.forEach(list => list.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  };
+
   const getUniqueActivityTypes = () => {
     const types = new Set(activities.map(activity => activity.type));
     return Array.from(types).sort((a, b) => a.localeCompare(b));
@@ -395,7 +352,8 @@ const Activities: React.FC = () => {
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
           <h1>Your Activities</h1>
           <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
-            {segmentProgress.total > 0 && (
+            {isAuthenticated && <RateLimitStatus />}
+            {syncProgress && (
               <div style={{ 
                 padding: '0.5rem 1rem', 
                 backgroundColor: colors.infoLight, 
@@ -403,43 +361,26 @@ const Activities: React.FC = () => {
                 fontSize: '0.9rem',
                 color: colors.info
               }}>
-                ⚙️ Segments: {segmentProgress.current}/{segmentProgress.total}
-              </div>
-            )}
-            {allPRsProgress.total > 0 && (
-              <div style={{ 
-                padding: '0.5rem 1rem', 
-                backgroundColor: colors.warningBg, 
-                borderRadius: '4px',
-                fontSize: '0.9rem',
-                color: colors.warningText
-              }}>
-                🎯 PRs: {allPRsProgress.current}/{allPRsProgress.total}
+                🔄 {syncProgress.phase === 'backfill'
+                  ? `Backfilling history: ${syncProgress.fetched} activities${syncProgress.oldestDate ? `, back to ${formatDate(syncProgress.oldestDate)}` : ''}`
+                  : `Syncing: ${syncProgress.fetched} new activities`}
               </div>
             )}
             <button 
               onClick={calculateAllActivityPRs} 
               className="btn btn-secondary" 
-              disabled={loading || calculatingAllPRs || activities.length === 0}
-              title="Calculate distance-based PRs for all activities"
+              disabled={loading || activities.length === 0}
+              title="Calculate distance-based PRs for all activities in the background"
             >
-              {calculatingAllPRs ? (
-                `🎯 Calculating... (${allPRsProgress.current}/${allPRsProgress.total})`
-              ) : (
-                '🎯 Calculate All PRs'
-              )}
+              🎯 Calculate All PRs
             </button>
             <button 
               onClick={fetchAllStreamData} 
               className="btn btn-secondary" 
-              disabled={loading || loadingStreams || activities.length === 0}
-              title="Fetch detailed stream data for all visible activities"
+              disabled={loading || activities.length === 0}
+              title="Fetch detailed stream data for all visible activities in the background"
             >
-              {loadingStreams ? (
-                `📊 Fetching... (${streamProgress.current}/${streamProgress.total})`
-              ) : (
-                '📊 Fetch Streams'
-              )}
+              📊 Fetch Streams
             </button>
             {!autoFetch && (
               <button onClick={fetchFromStrava} className="btn" disabled={loading}>
@@ -511,33 +452,101 @@ const Activities: React.FC = () => {
                 style={{ width: '100%', padding: '0.5rem', border: `1px solid ${colors.border}`, borderRadius: '4px' }}
               />
             </div>
+
+            <div>
+              <label htmlFor="activity-tag" style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.9rem', fontWeight: '500' }}>
+                Tag
+              </label>
+              <select
+                id="activity-tag"
+                value={filters.tag}
+                onChange={(e) => handleFilterChange('tag', e.target.value)}
+                style={{ width: '100%', padding: '0.5rem', border: `1px solid ${colors.border}`, borderRadius: '4px' }}
+              >
+                <option value="">All Tags</option>
+                {getAllTags().map(tag => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="activity-collection" style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.9rem', fontWeight: '500' }}>
+                Collection
+              </label>
+              <div style={{ display: 'flex', gap: '0.25rem' }}>
+                <select
+                  id="activity-collection"
+                  value={filters.collectionId}
+                  onChange={(e) => handleFilterChange('collectionId', e.target.value)}
+                  style={{ width: '100%', padding: '0.5rem', border: `1px solid ${colors.border}`, borderRadius: '4px' }}
+                >
+                  <option value="">All Activities</option>
+                  {collections.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                {filters.collectionId && (
+                  <button
+                    onClick={deleteSelectedCollection}
+                    type="button"
+                    title="Delete collection"
+                    style={{ background: 'none', border: 'none', cursor: 'pointer' }}
+                  >🗑️</button>
+                )}
+              </div>
+            </div>
           </div>
           
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <div style={{ fontSize: '0.9rem', color: colors.textSecondary }}>
               <div>Showing {filteredActivities.length} of {activities.length} activities</div>
-              {loadingStreams && (
-                <div style={{ marginTop: '0.25rem', color: colors.info }}>
-                  📊 Fetching stream data: {streamProgress.current}/{streamProgress.total}
-                </div>
-              )}
-              {!loadingStreams && streamProgress.total === 0 && activities.length > 0 && (
+              {activities.length > 0 && (
                 <div style={{ marginTop: '0.25rem', fontSize: '0.8rem' }}>
                   💡 Use "Fetch Streams" to get detailed GPS and sensor data for {filteredActivities.length > 0 ? filteredActivities.length : activities.length} activities
                 </div>
               )}
             </div>
-            <button 
-              onClick={clearFilters} 
-              className="btn btn-secondary"
-              style={{ fontSize: '0.9rem', padding: '0.5rem 1rem' }}
-            >
-              Clear Filters
-            </button>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                onClick={saveFiltersAsCollection}
+                className="btn btn-secondary"
+                style={{ fontSize: '0.9rem', padding: '0.5rem 1rem' }}
+                disabled={!filters.type && !filters.dateFrom && !filters.dateTo && !filters.tag}
+                title="Save the type, tag and date filters as a collection"
+              >
+                Save as Collection
+              </button>
+              <button 
+                onClick={clearFilters} 
+                className="btn btn-secondary"
+                style={{ fontSize: '0.9rem', padding: '0.5rem 1rem' }}
+              >
+                Clear Filters
+              </button>
+            </div>
           </div>
         </div>
         
         {error && <div className="error">{error}</div>}
+
+        {gearWarnings.length > 0 && (
+          <div style={{
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            backgroundColor: colors.warningBg,
+            color: colors.warningText,
+            borderRadius: '4px',
+            fontSize: '0.9rem'
+          }}>
+            {gearWarnings.map(({ gear, distance }) => (
+              <div key={gear.id}>
+                ⚠️ {gear.kind === 'shoe' ? '👟' : '🚲'} <strong>{gear.name}</strong> has {(distance / 1000).toFixed(0)} km - over its {gear.retirementKm} km retirement threshold.
+              </div>
+            ))}
+            <Link to="/gear" style={{ color: 'inherit' }}>Manage gear</Link>
+          </div>
+        )}
         
         {filteredActivities.length === 0 && activities.length > 0 && (
           <p>No activities match your filters. Try adjusting your search criteria.</p>
@@ -570,6 +579,22 @@ const Activities: React.FC = () => {
               }}>
                 {activity.source === 'device' ? 'Device' : 'Strava'}
               </span>
+              {activity.excludeFromStats && (
+                <span
+                  title="Excluded from stats and records"
+                  style={{ marginLeft: '0.35rem', fontSize: '0.7rem', color: colors.textSecondary }}
+                >
+                  (excluded)
+                </span>
+              )}
+              {activity.remoteDeletedAt && (
+                <span
+                  title={activity.archivedAt ? 'Deleted on Strava, kept locally' : 'Deleted on Strava - archive or remove it in Settings'}
+                  style={{ marginLeft: '0.35rem', fontSize: '0.7rem', color: activity.archivedAt ? colors.textSecondary : colors.danger }}
+                >
+                  {activity.archivedAt ? '(archived)' : '(deleted on Strava)'}
+                </span>
+              )}
             </div>
             <div className="activity-meta">
               {activity.type} • {formatDate(activity.start_date_local)}
@@ -584,26 +609,30 @@ const Activities: React.FC = () => {
                 ❤️ Avg HR: {activity.average_heartrate.toFixed(0)} bpm
               </div>
             )}
+            {(tagMap.get(activity.id) || []).length > 0 && (
+              <div style={{ fontSize: '0.75rem', color: colors.textSecondary, marginTop: '0.5rem' }}>
+                🏷️ {(tagMap.get(activity.id) || []).join(', ')}
+              </div>
+            )}
           </button>
         ))}
       </div>
 
-      {/* Load More Button */}
-      {isAuthenticated && hasMoreData && filteredActivities.length > 0 && (
+      {/* Sync Status */}
+      {isAuthenticated && syncState && !syncState.backfillComplete && !syncing && (
         <div style={{ textAlign: 'center', marginTop: '2rem' }}>
-          <button 
-            onClick={loadMoreActivities} 
-            className="btn"
-            disabled={loadingMore}
-          >
-            {loadingMore ? 'Loading more...' : 'Load More Activities'}
+          <p style={{ color: colors.textSecondary }}>
+            History backfill paused{syncState.backfillBefore ? ` at ${formatDate(new Date(syncState.backfillBefore * 1000).toISOString())}` : ''}.
+          </p>
+          <button onClick={resumeBackfill} className="btn">
+            Resume Backfill
           </button>
         </div>
       )}
       
-      {!hasMoreData && activities.length > 0 && (
+      {syncState?.backfillComplete && activities.length > 0 && (
         <div style={{ textAlign: 'center', marginTop: '2rem', color: colors.textSecondary }}>
-          All activities loaded
+          All activities synced{syncState.lastSyncAt ? ` • last sync ${new Date(syncState.lastSyncAt).toLocaleString()}` : ''}
         </div>
       )}
     </div>
@@ -2,23 +2,46 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import MultiMetricChart from './MultiMetricChart';
+import PhotoGallery from './PhotoGallery';
 import { stravaService } from '../services/stravaService';
-import { ActivityDetail as ActivityDetailType, StravaAthlete, Activity, db } from '../services/database';
+import { ActivityDetail as ActivityDetailType, StravaAthlete, Activity, ActivityView, ActivityOverrideFields, ActivityCollection, GearItem, PendingStravaEdit, StravaActivityEdit, StravaZoneBucket, StravaSegmentEffort, Segment, db } from '../services/database';
+import { activityOverrideService } from '../services/activityOverrideService';
+import { collectionService } from '../services/collectionService';
+import { gearService } from '../services/gearService';
 import { segmentService } from '../services/segmentService';
 import { computeSegmentPolyline, computeSegmentStats } from '../services/segmentDetector';
 import { routeGroupingService } from '../services/routeGroupingService';
+import { uploadService } from '../services/uploadService';
+import { stravaEditService } from '../services/stravaEditService';
 import { useThemeColors } from '../context/ThemeContext';
+import { pickFields } from '../utils/objectUtils';
 
 const ActivityDetail: React.FC = () => {
   const colors = useThemeColors();
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
-  const [activity, setActivity] = useState<ActivityDetailType | null>(null);
+  const [activity, setActivity] = useState<ActivityView<ActivityDetailType> | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editForm, setEditForm] = useState<ActivityOverrideFields>({});
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [collections, setCollections] = useState<ActivityCollection[]>([]);
+  const [llmCollectionId, setLlmCollectionId] = useState('');
+  const [gear, setGear] = useState<GearItem[]>([]);
+  const [canUpload, setCanUpload] = useState(false);
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null);
+  const [stravaEditing, setStravaEditing] = useState(false);
+  const [stravaForm, setStravaForm] = useState<StravaActivityEdit>({});
+  const [stravaEditError, setStravaEditError] = useState<string | null>(null);
+  const [savingStravaEdit, setSavingStravaEdit] = useState(false);
+  const [pendingEdits, setPendingEdits] = useState<PendingStravaEdit[]>([]);
   const [athlete, setAthlete] = useState<StravaAthlete | null>(null);
   const [loading, setLoading] = useState(true);
   const [segmentProgress, setSegmentProgress] = useState({ current: 0, total: 0 });
   const [activitySegments, setActivitySegments] = useState<Map<number, any>>(new Map());
+  const [trackedSegments, setTrackedSegments] = useState<Map<number, Segment>>(new Map());
+  const [trackingEffortId, setTrackingEffortId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [comparisonPeriod, setComparisonPeriod] = useState<'month' | 'year'>('month');
   const [comparisonData, setComparisonData] = useState<any[]>([]);
@@ -45,6 +68,7 @@ const ActivityDetail: React.FC = () => {
         if (resolvedId) {
           await loadActivityDetail(resolvedId);
           loadAthlete();
+          loadTagsAndCollections(resolvedId);
           await loadActivitySegments(resolvedId);
         } else {
           setError('Activity not found');
@@ -55,12 +79,11 @@ const ActivityDetail: React.FC = () => {
   }, [id, resolveActivityId]);
 
   const calculateRelativeEffortPoints = () => {
-    if (!activity?.streams?.heartrate || !athlete?.birth_year) {
+    const zones = activity ? getZonesFor(activity) : null;
+    if (!activity?.streams?.heartrate || !zones) {
       return null;
     }
 
-    const maxHR = calculateMaxHeartRate(athlete.birth_year);
-    const zones = getHeartRateZones(maxHR);
     const heartRateData = activity.streams.heartrate;
     const timeData = activity.streams.time || [];
 
@@ -105,16 +128,21 @@ const ActivityDetail: React.FC = () => {
       relativeScore: relativeEffortScore,
       intensityFactor: Math.round(intensityFactor * 100) / 100,
       timeInZones: Math.round(totalTimeInZones / 60), // in minutes
-      zoneMultipliers
+      zoneMultipliers,
+      zones
     };
   };
 
   const loadComparisonData = useCallback(async () => {
-    if (!activity || !athlete?.birth_year) return;
+    const currentEffort = calculateRelativeEffortPoints();
+    if (!activity || !currentEffort) return;
+    // Score every activity against this one's zones so they compare like for like
+    const { zones } = currentEffort;
 
     try {
-      // Get all cached activities from unified table
-      const allActivities = await db.allActivities.toArray();
+      // Get all cached activities from unified table, minus ones excluded from stats
+      const allActivities = (await activityOverrideService.withOverrides(await db.allActivities.toArray()))
+        .filter(act => !act.excludeFromStats);
       
       // Filter activities by period
       const activityDate = new Date(activity.start_date_local);
@@ -135,11 +163,9 @@ const ActivityDetail: React.FC = () => {
       
       for (const act of filteredActivities) {
         try {
-          const detailedAct = await db.allActivityDetails.get(act.id) || await stravaService.getActivityDetail(act.externalId || 0);
+          const detailedAct = await stravaService.getActivityDetail(act.id);
           
-          if (detailedAct.streams?.heartrate && athlete.birth_year) {
-            const maxHR = calculateMaxHeartRate(athlete.birth_year);
-            const zones = getHeartRateZones(maxHR);
+          if (detailedAct.streams?.heartrate) {
             const heartRateData = detailedAct.streams.heartrate;
             const timeData = detailedAct.streams.time || [];
 
@@ -181,18 +207,15 @@ const ActivityDetail: React.FC = () => {
       }
 
       // Add current activity to comparison
-      const currentEffort = calculateRelativeEffortPoints();
-      if (currentEffort) {
-        comparisonResults.push({
-          id: activity.id,
-          name: activity.name.length > 20 ? activity.name.substring(0, 20) + '...' : activity.name,
-          date: new Date(activity.start_date_local).toLocaleDateString(),
-          type: activity.type,
-          effort: currentEffort.totalPoints,
-          distance: activity.distance / 1000,
-          isCurrentActivity: true
-        });
-      }
+      comparisonResults.push({
+        id: activity.id,
+        name: activity.name.length > 20 ? activity.name.substring(0, 20) + '...' : activity.name,
+        date: new Date(activity.start_date_local).toLocaleDateString(),
+        type: activity.type,
+        effort: currentEffort.totalPoints,
+        distance: activity.distance / 1000,
+        isCurrentActivity: true
+      });
 
       // Sort by date (oldest first for chronological timeline)
       comparisonResults.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -201,10 +224,10 @@ const ActivityDetail: React.FC = () => {
     } catch (error) {
       console.error('Error loading comparison data:', error);
     }
-  }, [activity, athlete, comparisonPeriod, calculateRelativeEffortPoints]);
+  }, [activity, comparisonPeriod, calculateRelativeEffortPoints]);
 
   useEffect(() => {
-    if (activity && athlete?.birth_year) {
+    if (activity) {
       loadComparisonData();
     }
   }, [activity, athlete, comparisonPeriod, loadComparisonData]);
@@ -218,13 +241,13 @@ const ActivityDetail: React.FC = () => {
         await stravaService.clearActivityDetailCache(activityUuid);
       }
       
-      let detail = await db.allActivityDetails.get(activityUuid);
+      let detail = await db.getActivityDetail(activityUuid);
       if (!detail) {
         const basic = await db.allActivities.get(activityUuid);
         if (basic) {
           if (basic.source === 'strava' && basic.externalId !== undefined) {
             try {
-              detail = await stravaService.getActivityDetail(basic.externalId);
+              detail = await stravaService.getActivityDetail(activityUuid);
             } catch {
               detail = basic as ActivityDetailType;
             }
@@ -238,7 +261,15 @@ const ActivityDetail: React.FC = () => {
         setLoading(false);
         return;
       }
-      setActivity(detail);
+      setActivity(await activityOverrideService.withOverride(detail));
+      setCanUpload(await uploadService.canUpload(activityUuid));
+
+      // Strava's zones are only used for the heart rate chart, so fetch them once it's shown
+      if (detail.source === 'strava' && detail.externalId !== undefined && detail.zones === undefined && detail.streams?.heartrate) {
+        stravaService.loadZones(activityUuid)
+          .then(zones => setActivity(current => current?.id === activityUuid ? { ...current, zones } : current))
+          .catch(err => console.warn('Failed to load zones:', err));
+      }
     } catch (error) {
       console.error('Error loading activity detail:', error);
       setError(error instanceof Error ? error.message : 'Failed to load activity detail');
@@ -247,23 +278,144 @@ const ActivityDetail: React.FC = () => {
     }
   };
 
+  const handleUpload = async () => {
+    if (!activity) return;
+    setUploadStatus('Starting upload...');
+    try {
+      const stravaId = await uploadService.upload(activity.id, setUploadStatus);
+      alert(`✅ Uploaded to Strava as activity ${stravaId}`);
+      await loadActivityDetail(activity.id);
+    } catch (err) {
+      console.error('Upload failed:', err);
+      alert(`⚠️ Upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setUploadStatus(null);
+    }
+  };
+
+  useEffect(() => stravaEditService.subscribe(setPendingEdits), []);
+
+  useEffect(() => {
+    const stravaSegmentIds = (activity?.segment_efforts || []).map(e => e.segment?.id).filter((id): id is number => id !== undefined);
+    if (stravaSegmentIds.length === 0) return;
+    segmentService.getSegmentsForStravaIds(stravaSegmentIds)
+      .then(setTrackedSegments)
+      .catch(err => console.warn('Failed to load tracked segments:', err));
+  }, [activity]);
+
+  const trackStravaEffort = async (effort: StravaSegmentEffort) => {
+    if (!activity) return;
+    setTrackingEffortId(effort.id);
+    try {
+      const { efforts } = await segmentService.trackStravaEffort(activity, effort);
+      const stravaSegmentIds = activity.segment_efforts!.map(e => e.segment?.id).filter((id): id is number => id !== undefined);
+      setTrackedSegments(await segmentService.getSegmentsForStravaIds(stravaSegmentIds));
+      alert(`✅ Tracking "${effort.segment?.name || effort.name}" locally - found ${efforts.length} new efforts in your history`);
+    } catch (err) {
+      console.error('Failed to track segment:', err);
+      alert(`⚠️ Could not track segment: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setTrackingEffortId(null);
+    }
+  };
+
+  const startStravaEditing = async () => {
+    if (!activity) return;
+    try {
+      setGear(await gearService.getGear());
+    } catch (error) {
+      console.error('Failed to load gear:', error);
+    }
+    // Edit what Strava has, not the local overrides; an unsent edit goes on top
+    const synced = await db.allActivityDetails.get(activity.id) || await db.allActivities.get(activity.id);
+    const pending = pendingEdits.find(e => e.id === activity.id);
+    setStravaForm({
+      name: synced?.name || '',
+      description: (synced as ActivityDetailType | undefined)?.description || '',
+      type: synced?.type || '',
+      gear_id: synced?.gear_id || '',
+      commute: !!synced?.commute,
+      trainer: !!synced?.trainer,
+      ...pending?.changes,
+    });
+    setStravaEditError(null);
+    setEditing(false);
+    setStravaEditing(true);
+  };
+
+  const saveStravaEdit = async () => {
+    if (!activity) return;
+    const synced = await db.allActivityDetails.get(activity.id) || await db.allActivities.get(activity.id);
+    const current: StravaActivityEdit = {
+      name: synced?.name || '',
+      description: (synced as ActivityDetailType | undefined)?.description || '',
+      type: synced?.type || '',
+      gear_id: synced?.gear_id || '',
+      commute: !!synced?.commute,
+      trainer: !!synced?.trainer,
+    };
+    // Only send fields that changed
+    const changes: StravaActivityEdit = pickFields(
+      stravaForm,
+      (Object.keys(stravaForm) as (keyof StravaActivityEdit)[]).filter(key => stravaForm[key] !== current[key])
+    );
+    if (Object.keys(changes).length === 0) {
+      setStravaEditing(false);
+      return;
+    }
+    if (!changes.name && changes.name !== undefined) {
+      setStravaEditError('Name cannot be empty');
+      return;
+    }
+
+    setSavingStravaEdit(true);
+    setStravaEditError(null);
+    try {
+      const result = await stravaEditService.save(activity.id, changes);
+      setStravaEditing(false);
+      if (result === 'sent') {
+        await loadActivityDetail(activity.id);
+      }
+    } catch (error) {
+      console.error('Failed to update activity on Strava:', error);
+      setStravaEditError(error instanceof Error ? error.message : 'Failed to update activity on Strava');
+    } finally {
+      setSavingStravaEdit(false);
+    }
+  };
+
+  const retryPendingEdit = async () => {
+    if (!activity) return;
+    try {
+      await stravaEditService.flush();
+      await loadActivityDetail(activity.id);
+    } catch (error) {
+      console.error('Failed to send Strava edit:', error);
+    }
+  };
+
+  const discardPendingEdit = async () => {
+    if (!activity) return;
+    if (!window.confirm('Discard the edit that has not been sent to Strava?')) return;
+    try {
+      await stravaEditService.discard(activity.id);
+    } catch (error) {
+      console.error('Failed to discard Strava edit:', error);
+    }
+  };
+
   const loadActivitySegments = async (activityUuid: string) => {
     try {
       setSegmentProgress({ current: 0, total: 7 });
       const distances = [5, 10, 15, 20, 21.1, 30, 42.2];
       const segments = new Map();
       
-      const activity = await db.allActivities.get(activityUuid);
-      const numericId = activity?.externalId;
-      
       for (let i = 0; i < distances.length; i++) {
         try {
-          if (numericId !== undefined) {
-            await stravaService.calculateSegmentsForActivity(numericId);
-          }
+          await stravaService.calculateSegmentsForActivity(activityUuid);
           
           const pr = await stravaService.getPersonalRecordForDistance(distances[i]);
-          if (pr && pr.activity.id === (numericId || 0)) {
+          if (pr && pr.activity.id === activityUuid) {
             segments.set(distances[i], pr);
           }
         } catch (error) {
@@ -283,6 +435,50 @@ const ActivityDetail: React.FC = () => {
     }
   };
 
+  const loadTagsAndCollections = async (activityUuid: string) => {
+    try {
+      setTags(await collectionService.getTagsForActivity(activityUuid));
+      setCollections(await collectionService.getCollections());
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  };
+
+  const handleAddTag = async () => {
+    if (!activity || !newTag.trim()) return;
+    try {
+      await collectionService.addTag(activity.id, newTag);
+      setNewTag('');
+      await loadTagsAndCollections(activity.id);
+    } catch (error) {
+      console.error('Failed to add tag:', error);
+    }
+  };
+
+  const handleRemoveTag = async (tag: string) => {
+    if (!activity) return;
+    try {
+      await collectionService.removeTag(activity.id, tag);
+      await loadTagsAndCollections(activity.id);
+    } catch (error) {
+      console.error('Failed to remove tag:', error);
+    }
+  };
+
+  const toggleCollection = async (collection: ActivityCollection) => {
+    if (!activity) return;
+    try {
+      if (collection.activityIds.includes(activity.id)) {
+        await collectionService.removeFromCollection(collection.id!, activity.id);
+      } else {
+        await collectionService.addToCollection(collection.id!, activity.id);
+      }
+      await loadTagsAndCollections(activity.id);
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+    }
+  };
+
   const loadAthlete = async () => {
     try {
       const athleteData = await stravaService.getAthlete();
@@ -309,7 +505,18 @@ const ActivityDetail: React.FC = () => {
     return 220 - age; // Simple formula: 220 - age
   };
 
-  const getHeartRateZones = (maxHR: number) => {
+  const getHeartRateZones = (maxHR: number, buckets?: StravaZoneBucket[]) => {
+    if (buckets) {
+      // Strava leaves the top zone open (max -1)
+      const top = buckets[4].max > 0 ? buckets[4].max : maxHR;
+      return {
+        zone1: { min: buckets[0].min, max: buckets[0].max, name: 'Recovery (Zone 1)', color: '#4FC3F7' },
+        zone2: { min: buckets[1].min, max: buckets[1].max, name: 'Endurance (Zone 2)', color: '#66BB6A' },
+        zone3: { min: buckets[2].min, max: buckets[2].max, name: 'Tempo (Zone 3)', color: '#FFEB3B' },
+        zone4: { min: buckets[3].min, max: buckets[3].max, name: 'Threshold (Zone 4)', color: '#FF9800' },
+        zone5: { min: buckets[4].min, max: top, name: 'Anaerobic (Zone 5)', color: '#F44336' }
+      };
+    }
     return {
       zone1: { min: 0, max: Math.round(maxHR * 0.6), name: 'Recovery (Zone 1)', color: '#4FC3F7' },
       zone2: { min: Math.round(maxHR * 0.6), max: Math.round(maxHR * 0.7), name: 'Aerobic Base (Zone 2)', color: '#66BB6A' },
@@ -319,13 +526,26 @@ const ActivityDetail: React.FC = () => {
     };
   };
 
+  const getStravaHeartRateBuckets = (detail: ActivityDetailType) => {
+    const buckets = detail.zones?.find(z => z.type === 'heartrate')?.distribution_buckets;
+    return buckets?.length === 5 ? buckets : undefined;
+  };
+
+  // The athlete's own Strava zones when we have them, else estimated from age
+  const getZonesFor = (detail: ActivityDetailType) => {
+    const buckets = getStravaHeartRateBuckets(detail);
+    if (buckets) {
+      return getHeartRateZones(detail.max_heartrate || buckets[4].min, buckets);
+    }
+    return athlete?.birth_year ? getHeartRateZones(calculateMaxHeartRate(athlete.birth_year)) : null;
+  };
+
   const getHeartRateZoneDistribution = () => {
-    if (!activity?.streams?.heartrate || !athlete?.birth_year) {
+    const zones = activity ? getZonesFor(activity) : null;
+    if (!activity?.streams?.heartrate || !zones) {
       return [];
     }
 
-    const maxHR = calculateMaxHeartRate(athlete.birth_year);
-    const zones = getHeartRateZones(maxHR);
     const heartRateData = activity.streams.heartrate;
     const timeData = activity.streams.time || [];
 
@@ -575,7 +795,11 @@ const ActivityDetail: React.FC = () => {
     
     // Add yearly activity context
     try {
-      const allActivities = await db.allActivities.toArray();
+      let allActivities = (await activityOverrideService.withOverrides(await db.allActivities.toArray()))
+        .filter(act => !act.excludeFromStats);
+      if (llmCollectionId) {
+        allActivities = await collectionService.filterByCollection(allActivities, Number(llmCollectionId));
+      }
       const currentYear = new Date(activity.start_date_local).getFullYear();
       
       const yearActivities = allActivities.filter(act => {
@@ -584,7 +808,8 @@ const ActivityDetail: React.FC = () => {
       });
       
       if (yearActivities.length > 0) {
-        summary += `\n\nYear_${currentYear}_context: `;
+        const collectionName = collections.find(c => c.id === Number(llmCollectionId))?.name;
+        summary += `\n\nYear_${currentYear}_context${collectionName ? `(collection:${collectionName})` : ''}: `;
         summary += `Total_activities:${yearActivities.length + 1}, `;
         
         // Calculate yearly totals
@@ -624,10 +849,9 @@ const ActivityDetail: React.FC = () => {
           let hrZoneText = '';
           if (athlete?.birth_year) {
             try {
-              const detailedAct = await db.allActivityDetails.get(act.id) || await stravaService.getActivityDetail(act.externalId || 0);
-              if (detailedAct && detailedAct.streams?.heartrate) {
-                const maxHR = calculateMaxHeartRate(athlete.birth_year);
-                const zones = getHeartRateZones(maxHR);
+              const detailedAct = await stravaService.getActivityDetail(act.id);
+              const zones = detailedAct && getZonesFor(detailedAct);
+              if (zones && detailedAct.streams?.heartrate) {
                 const heartRateData = detailedAct.streams.heartrate;
                 const timeData = detailedAct.streams.time || [];
 
@@ -689,6 +913,56 @@ const ActivityDetail: React.FC = () => {
     return finalSummary;
   };
 
+  const startEditing = async () => {
+    if (!activity) return;
+    try {
+      setGear(await gearService.getGear());
+    } catch (error) {
+      console.error('Failed to load gear:', error);
+    }
+    setEditForm({
+      name: activity.name,
+      type: activity.type,
+      gear_id: activity.gear_id || '',
+      notes: activity.notes || '',
+      excludeFromStats: !!activity.excludeFromStats,
+    });
+    setStravaEditing(false);
+    setEditing(true);
+  };
+
+  const saveOverrides = async () => {
+    if (!activity) return;
+    try {
+      const synced = await db.allActivities.get(activity.id);
+      // Only keep fields that actually differ from the synced values
+      await activityOverrideService.saveOverride(activity, {
+        name: editForm.name && editForm.name !== synced?.name ? editForm.name : '',
+        type: editForm.type && editForm.type !== synced?.type ? editForm.type : '',
+        gear_id: editForm.gear_id !== (synced?.gear_id || '') ? editForm.gear_id : '',
+        notes: editForm.notes?.trim() || '',
+        excludeFromStats: !!editForm.excludeFromStats,
+      });
+      setEditing(false);
+      await loadActivityDetail(activity.id);
+    } catch (error) {
+      console.error('Failed to save activity edits:', error);
+      setError('Failed to save activity edits');
+    }
+  };
+
+  const resetOverrides = async () => {
+    if (!activity) return;
+    if (!window.confirm('Discard all local edits for this activity?')) return;
+    try {
+      await activityOverrideService.clearOverride(activity.id);
+      setEditing(false);
+      await loadActivityDetail(activity.id);
+    } catch (error) {
+      console.error('Failed to reset activity edits:', error);
+    }
+  };
+
   const copyLLMSummary = async () => {
     const summary = await generateLLMSummary();
     try {
@@ -737,6 +1011,7 @@ const ActivityDetail: React.FC = () => {
     );
   }
 
+  const pendingEdit = pendingEdits.find(e => e.id === activity.id);
   const analysisData = getAnalysisData();
   const elevationData = getElevationData();
   const heartRateData = getHeartRateData();
@@ -755,6 +1030,62 @@ const ActivityDetail: React.FC = () => {
             {activity.description && (
               <p style={{ fontStyle: 'italic' }}>{activity.description}</p>
             )}
+            {activity.notes && (
+              <p style={{ whiteSpace: 'pre-wrap', color: colors.textSecondary }}>📝 {activity.notes}</p>
+            )}
+            <div style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+              <span style={{ fontSize: '0.85rem', color: colors.textSecondary }}>🏷️</span>
+              {tags.map(tag => (
+                <span
+                  key={tag}
+                  style={{
+                    padding: '2px 8px',
+                    borderRadius: '12px',
+                    fontSize: '0.8rem',
+                    backgroundColor: colors.bgTertiary,
+                    border: `1px solid ${colors.border}`,
+                  }}
+                >
+                  {tag}
+                  <button
+                    onClick={() => handleRemoveTag(tag)}
+                    type="button"
+                    title="Remove tag"
+                    style={{ marginLeft: '4px', background: 'none', border: 'none', cursor: 'pointer', padding: 0, color: colors.textSecondary }}
+                  >×</button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+                placeholder="Add tag..."
+                style={{ width: '120px', padding: '2px 6px', fontSize: '0.8rem' }}
+              />
+            </div>
+            {collections.length > 0 && (
+              <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '0.5rem', fontSize: '0.85rem' }}>
+                <span style={{ color: colors.textSecondary }}>Collections:</span>
+                {collections.map(c => (
+                  <label key={c.id} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={c.activityIds.includes(activity.id)}
+                      onChange={() => toggleCollection(c)}
+                      style={{ width: 'auto' }}
+                    />
+                    {c.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            {(activity.excludeFromStats || (activity.overriddenFields?.length ?? 0) > 0) && (
+              <p style={{ fontSize: '0.85rem', color: colors.textSecondary }}>
+                {activity.excludeFromStats && 'Excluded from stats and records. '}
+                {activity.overriddenFields?.some(f => f === 'name' || f === 'type' || f === 'gear_id') && 'Edited locally - Strava sync will not overwrite these changes.'}
+              </p>
+            )}
           </div>
           <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
             {segmentProgress.total > 0 && (
@@ -769,6 +1100,19 @@ const ActivityDetail: React.FC = () => {
                 ⚙️ Segments: {segmentProgress.current}/{segmentProgress.total}
               </div>
             )}
+            {collections.length > 0 && (
+              <select
+                value={llmCollectionId}
+                onChange={(e) => setLlmCollectionId(e.target.value)}
+                title="Limit the LLM summary year context to a collection"
+                style={{ padding: '0.4rem', borderRadius: '4px', border: `1px solid ${colors.border}` }}
+              >
+                <option value="">Year context: all</option>
+                {collections.map(c => (
+                  <option key={c.id} value={c.id}>Year context: {c.name}</option>
+                ))}
+              </select>
+            )}
             <button 
                id="llm-summary-btn"
                onClick={copyLLMSummary} 
@@ -829,6 +1173,28 @@ const ActivityDetail: React.FC = () => {
               >
                 📍 Save as Route
               </button>
+            {canUpload && (
+              <button
+                onClick={handleUpload}
+                className="btn btn-secondary"
+                disabled={!!uploadStatus}
+                title="Upload the original FIT file to Strava"
+              >
+                {uploadStatus ? `⬆️ ${uploadStatus}` : '⬆️ Upload to Strava'}
+              </button>
+            )}
+            {activity.externalId !== undefined && (
+              <button
+                onClick={stravaEditing ? () => setStravaEditing(false) : startStravaEditing}
+                className="btn btn-secondary"
+                title="Change this activity on Strava"
+              >
+                {stravaEditing ? 'Cancel Strava Edit' : '✏️ Edit on Strava'}
+              </button>
+            )}
+            <button onClick={editing ? () => setEditing(false) : startEditing} className="btn btn-secondary">
+              {editing ? 'Cancel Edit' : '✏️ Edit'}
+            </button>
             <button onClick={handleRefresh} className="btn" disabled={loading}>
               {loading ? 'Refreshing...' : 'Refresh'}
             </button>
@@ -839,6 +1205,175 @@ const ActivityDetail: React.FC = () => {
         </div>
       </div>
 
+      {pendingEdit && (
+        <div className="card" style={{ backgroundColor: colors.warningBg, color: colors.warningText }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+            <span>
+              {pendingEdit.lastError
+                ? `⚠️ Strava edit not saved: ${pendingEdit.lastError}`
+                : '⏳ Edit saved offline - it will be sent to Strava when you are back online'}
+            </span>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button onClick={retryPendingEdit} className="btn btn-secondary">Retry Now</button>
+              <button onClick={discardPendingEdit} className="btn btn-secondary">Discard</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {stravaEditing && (
+        <div className="card">
+          <h3>Edit on Strava</h3>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Changes are saved to Strava and then to this device. Offline edits are sent once you reconnect.
+          </p>
+          {stravaEditError && <div className="error">{stravaEditError}</div>}
+          <div className="form-group">
+            <label htmlFor="stravaName">Name</label>
+            <input
+              type="text"
+              id="stravaName"
+              value={stravaForm.name || ''}
+              onChange={(e) => setStravaForm({ ...stravaForm, name: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="stravaDescription">Description</label>
+            <textarea
+              id="stravaDescription"
+              value={stravaForm.description || ''}
+              onChange={(e) => setStravaForm({ ...stravaForm, description: e.target.value })}
+              rows={3}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="stravaType">Type</label>
+            <input
+              type="text"
+              id="stravaType"
+              value={stravaForm.type || ''}
+              onChange={(e) => setStravaForm({ ...stravaForm, type: e.target.value })}
+              placeholder="e.g. Run, Ride, Walk"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="stravaGear">Gear</label>
+            <select
+              id="stravaGear"
+              value={stravaForm.gear_id || ''}
+              onChange={(e) => setStravaForm({ ...stravaForm, gear_id: e.target.value })}
+            >
+              <option value="">None</option>
+              {/* Gear added in the app doesn't exist on Strava */}
+              {gear.filter(g => g.source === 'strava' && (!g.retired || g.id === stravaForm.gear_id)).map(g => (
+                <option key={g.id} value={g.id}>{g.kind === 'shoe' ? '👟' : '🚲'} {g.name}</option>
+              ))}
+              {stravaForm.gear_id && !gear.some(g => g.id === stravaForm.gear_id) && (
+                <option value={stravaForm.gear_id}>{stravaForm.gear_id}</option>
+              )}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={!!stravaForm.commute}
+                onChange={(e) => setStravaForm({ ...stravaForm, commute: e.target.checked })}
+                style={{ width: 'auto', marginRight: '0.5rem' }}
+              />
+              Commute
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!stravaForm.trainer}
+                onChange={(e) => setStravaForm({ ...stravaForm, trainer: e.target.checked })}
+                style={{ width: 'auto', marginRight: '0.5rem' }}
+              />
+              Indoor / trainer
+            </label>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button onClick={saveStravaEdit} className="btn" disabled={savingStravaEdit}>
+              {savingStravaEdit ? 'Saving...' : 'Save to Strava'}
+            </button>
+            <button onClick={() => setStravaEditing(false)} className="btn btn-secondary">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <div className="card">
+          <h3>Edit Activity</h3>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Edits are stored locally on top of the synced data and are kept when the activity is refreshed or re-synced.
+          </p>
+          <div className="form-group">
+            <label htmlFor="overrideName">Name</label>
+            <input
+              type="text"
+              id="overrideName"
+              value={editForm.name || ''}
+              onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="overrideType">Type</label>
+            <input
+              type="text"
+              id="overrideType"
+              value={editForm.type || ''}
+              onChange={(e) => setEditForm({ ...editForm, type: e.target.value })}
+              placeholder="e.g. Run, Ride, Walk"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="overrideGear">Gear</label>
+            <select
+              id="overrideGear"
+              value={editForm.gear_id || ''}
+              onChange={(e) => setEditForm({ ...editForm, gear_id: e.target.value })}
+            >
+              <option value="">None</option>
+              {gear.filter(g => !g.retired || g.id === editForm.gear_id).map(g => (
+                <option key={g.id} value={g.id}>{g.kind === 'shoe' ? '👟' : '🚲'} {g.name}</option>
+              ))}
+              {editForm.gear_id && !gear.some(g => g.id === editForm.gear_id) && (
+                <option value={editForm.gear_id}>{editForm.gear_id}</option>
+              )}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="overrideNotes">Private Notes</label>
+            <textarea
+              id="overrideNotes"
+              value={editForm.notes || ''}
+              onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+              rows={3}
+              placeholder="Only stored on this device"
+            />
+          </div>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={!!editForm.excludeFromStats}
+                onChange={(e) => setEditForm({ ...editForm, excludeFromStats: e.target.checked })}
+                style={{ width: 'auto', marginRight: '0.5rem' }}
+              />
+              Exclude from stats, records and comparisons
+            </label>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button onClick={saveOverrides} className="btn">Save</button>
+            <button onClick={() => setEditing(false)} className="btn btn-secondary">Cancel</button>
+            {(activity.overriddenFields?.length ?? 0) > 0 && (
+              <button onClick={resetOverrides} className="btn btn-secondary">Reset to Synced Values</button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Main Stats */}
       <div className="stats-grid">
         <div className="stat-card">
@@ -978,10 +1513,12 @@ const ActivityDetail: React.FC = () => {
       {getHeartRateZoneDistribution().length > 0 && (
         <div className="card">
           <h3>Heart Rate Zone Distribution</h3>
-          {athlete?.birth_year ? (
+          {activity && getZonesFor(activity) ? (
             <div>
               <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
-                Based on estimated max HR: {calculateMaxHeartRate(athlete.birth_year)} bpm (Age: {new Date().getFullYear() - athlete.birth_year})
+                {getStravaHeartRateBuckets(activity)
+                  ? 'Based on your Strava heart rate zones'
+                  : athlete?.birth_year && `Based on estimated max HR: ${calculateMaxHeartRate(athlete.birth_year)} bpm (Age: ${new Date().getFullYear() - athlete.birth_year})`}
               </p>
               <div className="chart-container">
                 <ResponsiveContainer width="100%" height={300}>
@@ -1225,6 +1762,60 @@ const ActivityDetail: React.FC = () => {
         </div>
       )}
 
+      <PhotoGallery activity={activity} />
+
+      {/* Strava Segment Efforts */}
+      {activity.segment_efforts && activity.segment_efforts.length > 0 && (
+        <div className="card">
+          <h3>Strava Segments</h3>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Track a segment locally to find it in all your activities, including device imports Strava never matched.
+          </p>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: `1px solid ${colors.border}` }}>
+                <th style={{ padding: '0.5rem' }}>Segment</th>
+                <th style={{ padding: '0.5rem' }}>Distance</th>
+                <th style={{ padding: '0.5rem' }}>Time</th>
+                <th style={{ padding: '0.5rem' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {activity.segment_efforts.map(effort => {
+                const tracked = effort.segment?.id !== undefined ? trackedSegments.get(effort.segment.id) : undefined;
+                return (
+                  <tr key={effort.id} style={{ borderBottom: `1px solid ${colors.border}` }}>
+                    <td style={{ padding: '0.5rem' }}>
+                      {effort.name}
+                      {effort.pr_rank === 1 && <span title="Personal record on Strava"> 🏆</span>}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>{formatDistance(effort.distance)}</td>
+                    <td style={{ padding: '0.5rem' }}>{formatSegmentTime(effort.elapsed_time)}</td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>
+                      {tracked ? (
+                        <button onClick={() => navigate('/segments')} className="btn btn-secondary" style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}>
+                          ✓ Tracked
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => trackStravaEffort(effort)}
+                          className="btn btn-secondary"
+                          style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}
+                          disabled={trackingEffortId !== null || !activity.streams?.latlng}
+                          title={activity.streams?.latlng ? 'Create a local segment from this effort' : 'This activity has no GPS data'}
+                        >
+                          {trackingEffortId === effort.id ? 'Scanning...' : '📌 Track locally'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Additional Stats */}
       <div className="card">
         <h3>Additional Statistics</h3>
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { MapContainer, TileLayer, Polyline, Marker, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import { stravaService } from '../services/stravaService';
 import { ActivityDetail, Segment as SegmentDef } from '../services/database';
 import { segmentService } from '../services/segmentService';
+import { photoService, PhotoWithSrc } from '../services/photoService';
 import { computeSegmentPolyline, computeSegmentStats } from '../services/segmentDetector';
 import { useThemeColors } from '../context/ThemeContext';
 
@@ -227,13 +228,37 @@ const ActivityMap: React.FC = () => {
   const [segmentEndIdx, setSegmentEndIdx] = useState<number | null>(null);
   const [segmentName, setSegmentName] = useState('');
   const [saving, setSaving] = useState(false);
+  const [photos, setPhotos] = useState<PhotoWithSrc[]>([]);
 
   useEffect(() => {
     if (id) {
-      loadActivityDetail(parseInt(id));
+      loadActivityDetail(id);
     }
   }, [id]);
 
+  // Geotagged photos from the offline cache; the gallery on the detail page fetches them
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    let shown: PhotoWithSrc[] = [];
+    photoService.getPhotosWithSrc(id)
+      .then(all => {
+        const located = all.filter(p => p.photo.location);
+        photoService.releaseUrls(all.filter(p => !p.photo.location));
+        if (cancelled) {
+          photoService.releaseUrls(located);
+          return;
+        }
+        shown = located;
+        setPhotos(located);
+      })
+      .catch(err => console.warn('Failed to load photos:', err));
+    return () => {
+      cancelled = true;
+      photoService.releaseUrls(shown);
+    };
+  }, [id]);
+
   useEffect(() => {
     const handleResize = () => {
       mapRef.current?.invalidateSize();
@@ -242,7 +267,7 @@ const ActivityMap: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const loadActivityDetail = async (activityId: number) => {
+  const loadActivityDetail = async (activityId: string) => {
     try {
       setLoading(true);
       setError(null);
@@ -689,6 +714,19 @@ const ActivityMap: React.FC = () => {
               </>
             )}
 
+            {photos.map(({ photo, src }) => (
+              <Marker
+                key={photo.id}
+                position={photo.location!}
+                icon={L.divIcon({ className:'', html:'<div style="width:28px;height:28px;background:white;border-radius:50%;box-shadow:0 2px 6px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;font-size:15px">📷</div>', iconSize:[28,28], iconAnchor:[14,14] })}
+              >
+                <Popup>
+                  <img src={src} alt={photo.caption || 'Activity photo'} style={{ width: '200px', display: 'block', borderRadius: '4px' }} />
+                  {photo.caption && <div style={{ marginTop: '0.25rem' }}>{photo.caption}</div>}
+                </Popup>
+              </Marker>
+            ))}
+
             <HoverTooltip
            position={hoveredIndex !== null && routeData?.points[hoveredIndex] ? [routeData.points[hoveredIndex].lat, routeData.points[hoveredIndex].lng] : null}
            content={`${currentMetric?.label}: ${hoveredIndex !== null && routeData?.points[hoveredIndex] ? routeData.points[hoveredIndex].value.toFixed(1) : ''} ${currentMetric?.unit}`}
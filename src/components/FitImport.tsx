@@ -1,6 +1,10 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { fitImportService, FitFileEntry } from '../services/fitImportService';
+import { fitImportService, FitFileEntry, SUPPORTED_EXTENSIONS, isSupportedFile } from '../services/fitImportService';
+import { stravaService } from '../services/stravaService';
+import { uploadService } from '../services/uploadService';
+import { jobQueueService } from '../services/jobQueueService';
+import { stravaArchiveService, ArchiveImportProgress } from '../services/stravaArchiveService';
 import { useThemeColors } from '../context/ThemeContext';
 
 const FitImport: React.FC = () => {
@@ -11,6 +15,9 @@ const FitImport: React.FC = () => {
   const [importing, setImporting] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [uploadableIds, setUploadableIds] = useState<string[]>([]);
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveImportProgress | null>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const addFilesRef = useRef<(fileList: FileList | File[]) => void>();
 
@@ -19,8 +26,8 @@ const FitImport: React.FC = () => {
     const errors: string[] = [];
 
     for (const file of Array.from(fileList)) {
-      if (!file.name.toLowerCase().endsWith('.fit')) {
-        errors.push(`${file.name}: Not a .fit file`);
+      if (!isSupportedFile(file.name)) {
+        errors.push(`${file.name}: Not a ${SUPPORTED_EXTENSIONS.join(' or ')} file`);
         continue;
       }
       newEntries.push({
@@ -115,6 +122,58 @@ const FitImport: React.FC = () => {
     setMessage(null);
   }, []);
 
+  const loadUploadable = useCallback(async () => {
+    try {
+      if (await stravaService.isAuthenticated()) {
+        setUploadableIds(await uploadService.getUploadableIds());
+      }
+    } catch (err) {
+      console.error('Failed to load uploadable activities:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUploadable();
+  }, [loadUploadable]);
+
+  const handleUploadAll = async () => {
+    try {
+      await jobQueueService.enqueue('uploadToStrava', 'Upload to Strava', uploadableIds);
+      setMessage({ type: 'success', text: `Uploading ${uploadableIds.length} activities to Strava in the background` });
+      setUploadableIds([]);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to start upload' });
+    }
+  };
+
+  const handleArchiveSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setArchiveProgress({ current: 0, total: 0 });
+    try {
+      const result = await stravaArchiveService.importArchive(file, setArchiveProgress);
+      const failures = result.failed.slice(0, 10).map(f => `${f.name}: ${f.error}`);
+      if (result.failed.length > failures.length) {
+        failures.push(`...and ${result.failed.length - failures.length} more`);
+      }
+      setMessage({
+        type: result.failed.length === 0 ? 'success' : 'error',
+        text: [
+          `Archive import complete: ${result.imported} imported (${result.withStreams} with streams), ${result.skipped} already stored, ${result.failed.length} failed`,
+          ...failures,
+        ].join('\n'),
+      });
+    } catch (err) {
+      console.error('Archive import failed:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to read archive' });
+    } finally {
+      setArchiveProgress(null);
+    }
+  };
+
   const handleImport = useCallback(async () => {
     const queuedFiles = files.filter(f => f.status === 'queued');
     if (queuedFiles.length === 0) return;
@@ -133,7 +192,7 @@ const FitImport: React.FC = () => {
       setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'parsing' } : f));
 
       try {
-        const parsed = await fitImportService.parseFitFile(entry.file);
+        const parsed = await fitImportService.parseFile(entry.file);
 
         setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'storing' } : f));
 
@@ -148,7 +207,7 @@ const FitImport: React.FC = () => {
           continue;
         }
 
-        await fitImportService.storeActivity(parsed.summary, parsed.details);
+        await fitImportService.storeActivity(parsed.summary, parsed.details, entry.file);
 
         setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'imported', activity: parsed } : f));
         successCount++;
@@ -167,7 +226,8 @@ const FitImport: React.FC = () => {
       type: errorCount === 0 ? 'success' : 'error',
       text: `Import complete: ${successCount} imported, ${duplicateCount} duplicates, ${errorCount} failed`,
     });
-  }, [files]);
+    loadUploadable();
+  }, [files, loadUploadable]);
 
   const completedCount = files.filter(f => f.status === 'imported').length;
   const totalToProcess = files.filter(f => f.status === 'queued').length;
@@ -206,7 +266,7 @@ const FitImport: React.FC = () => {
     <div>
       <div className="card">
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
-          <h1>Import FIT Files</h1>
+          <h1>Import Activity Files</h1>
           <button onClick={() => navigate('/activities')} className="btn btn-secondary">
             Back to Activities
           </button>
@@ -218,6 +278,17 @@ const FitImport: React.FC = () => {
           </div>
         )}
 
+        {uploadableIds.length > 0 && (
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '0.75rem 1rem', marginBottom: '1rem', backgroundColor: colors.bgTertiary, borderRadius: '8px' }}>
+            <span style={{ fontSize: '0.9rem', color: colors.textSecondary }}>
+              {uploadableIds.length} imported {uploadableIds.length === 1 ? 'activity is' : 'activities are'} not on Strava yet
+            </span>
+            <button onClick={handleUploadAll} className="btn" style={{ fontSize: '0.9rem' }}>
+              ⬆️ Upload {uploadableIds.length} to Strava
+            </button>
+          </div>
+        )}
+
         {/* Drop Zone */}
         <div
           onDragOver={handleDragOver}
@@ -238,20 +309,44 @@ const FitImport: React.FC = () => {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".fit"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             multiple
             onChange={handleFileSelect}
             style={{ display: 'none' }}
           />
           <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>📁</div>
           <p style={{ fontWeight: 500, marginBottom: '0.5rem' }}>
-            {dragOver ? 'Drop files here' : 'Drag & drop .fit files here, or click to select'}
+            {dragOver ? 'Drop files here' : 'Drag & drop .fit, .gpx or .tcx files here, or click to select'}
           </p>
           <p style={{ fontSize: '0.9rem', color: colors.textSecondary }}>
-            Supports multiple files from Garmin, Wahoo, Coros, and other devices
+            Supports multiple files from Garmin, Wahoo, Coros, other devices and phone apps
           </p>
         </div>
 
+        {/* Strava Archive */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '0.75rem 1rem', marginBottom: '1rem', backgroundColor: colors.bgTertiary, borderRadius: '8px' }}>
+          <div style={{ fontSize: '0.9rem', color: colors.textSecondary }}>
+            {archiveProgress
+              ? `Importing ${archiveProgress.current} of ${archiveProgress.total}${archiveProgress.name ? `: ${archiveProgress.name}` : ''}`
+              : 'Have a Strava "Download your data" archive? Import your whole history from the ZIP without using the API.'}
+          </div>
+          <input
+            ref={archiveInputRef}
+            type="file"
+            accept=".zip"
+            onChange={handleArchiveSelect}
+            style={{ display: 'none' }}
+          />
+          <button
+            onClick={() => archiveInputRef.current?.click()}
+            className="btn btn-secondary"
+            disabled={!!archiveProgress || importing}
+            style={{ fontSize: '0.9rem', whiteSpace: 'nowrap' }}
+          >
+            {archiveProgress ? 'Importing...' : '🗜️ Import Strava Archive'}
+          </button>
+        </div>
+
         {/* File Queue */}
         {files.length > 0 && (
           <div style={{ marginBottom: '1rem' }}>
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { gearService, GearStats } from '../services/gearService';
+import { ActivityView, GearItem } from '../services/database';
+import { useThemeColors } from '../context/ThemeContext';
+
+const GearPage: React.FC = () => {
+  const colors = useThemeColors();
+  const navigate = useNavigate();
+  const [stats, setStats] = useState<GearStats[]>([]);
+  const [unassigned, setUnassigned] = useState<ActivityView[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [assignGearId, setAssignGearId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [newGear, setNewGear] = useState<{ name: string; kind: GearItem['kind']; retirementKm: string }>({
+    name: '',
+    kind: 'shoe',
+    retirementKm: '',
+  });
+
+  useEffect(() => {
+    loadGear();
+  }, []);
+
+  const loadGear = async () => {
+    setLoading(true);
+    try {
+      setStats(await gearService.getGearStats());
+      setUnassigned(await gearService.getUnassignedDeviceActivities());
+    } catch (err) {
+      console.error('Failed to load gear:', err);
+      setMessage({ type: 'error', text: 'Failed to load gear' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleThresholdChange = async (id: string, value: string) => {
+    const km = parseFloat(value);
+    try {
+      await gearService.updateGear(id, { retirementKm: km > 0 ? km : undefined });
+      setStats(await gearService.getGearStats());
+    } catch (err) {
+      console.error('Failed to update threshold:', err);
+    }
+  };
+
+  const handleRetiredChange = async (id: string, retired: boolean) => {
+    try {
+      await gearService.updateGear(id, { retired: retired || undefined });
+      setStats(await gearService.getGearStats());
+    } catch (err) {
+      console.error('Failed to update gear:', err);
+    }
+  };
+
+  const handleAddGear = async () => {
+    try {
+      const km = parseFloat(newGear.retirementKm);
+      await gearService.createGear(newGear.name, newGear.kind, km > 0 ? km : undefined);
+      setNewGear({ name: '', kind: newGear.kind, retirementKm: '' });
+      setMessage({ type: 'success', text: 'Gear added' });
+      await loadGear();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to add gear' });
+    }
+  };
+
+  const handleDelete = async (item: GearItem) => {
+    if (!window.confirm(`Delete "${item.name}"? Activities using it will be unassigned.`)) return;
+    try {
+      await gearService.deleteGear(item.id);
+      await loadGear();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to delete gear' });
+    }
+  };
+
+  const handleAssign = async () => {
+    if (!assignGearId || selectedIds.size === 0) return;
+    try {
+      await gearService.assignGear(Array.from(selectedIds), assignGearId);
+      setMessage({ type: 'success', text: `Assigned gear to ${selectedIds.size} activities` });
+      setSelectedIds(new Set());
+      await loadGear();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to assign gear' });
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const formatKm = (meters: number) => (meters / 1000).toFixed(1) + ' km';
+
+  const formatHours = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}h ${minutes}m`;
+  };
+
+  const formatDate = (ds: string) => new Date(ds).toLocaleDateString();
+
+  if (loading) {
+    return <div className="loading">Loading gear...</div>;
+  }
+
+  const activeGear = stats.filter(s => !s.gear.retired).map(s => s.gear);
+
+  return (
+    <div>
+      <div className="card">
+        <h1>Gear</h1>
+        <p style={{ color: colors.textSecondary, marginBottom: '1rem' }}>
+          Distance and time per shoe and bike. Strava gear is read from your athlete profile; you can also add gear for device imports.
+        </p>
+
+        {message && (
+          <div className={message.type === 'success' ? 'success' : 'error'} style={{ whiteSpace: 'pre-line' }}>
+            {message.text}
+          </div>
+        )}
+
+        {stats.length === 0 ? (
+          <p>No gear yet. Connect Strava or add gear below.</p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', borderBottom: `1px solid ${colors.border}` }}>
+                  <th style={{ padding: '0.5rem' }}>Name</th>
+                  <th style={{ padding: '0.5rem' }}>Activities</th>
+                  <th style={{ padding: '0.5rem' }}>Distance</th>
+                  <th style={{ padding: '0.5rem' }}>Time</th>
+                  <th style={{ padding: '0.5rem' }}>Last Used</th>
+                  <th style={{ padding: '0.5rem' }}>Retire At (km)</th>
+                  <th style={{ padding: '0.5rem' }}>Retired</th>
+                  <th style={{ padding: '0.5rem' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(({ gear, activities, distance, movingTime, lastUsed, overThreshold }) => (
+                  <tr
+                    key={gear.id}
+                    style={{
+                      borderBottom: `1px solid ${colors.border}`,
+                      opacity: gear.retired ? 0.6 : 1,
+                      backgroundColor: overThreshold && !gear.retired ? colors.warningBg : undefined,
+                    }}
+                  >
+                    <td style={{ padding: '0.5rem' }}>
+                      {gear.kind === 'shoe' ? '👟' : '🚲'} {gear.name}
+                      {gear.source === 'strava' && (
+                        <span style={{ marginLeft: '0.35rem', fontSize: '0.7rem', color: '#fc4c02' }}>STRAVA</span>
+                      )}
+                      {gear.retirementKm && (
+                        <div style={{ height: '4px', backgroundColor: colors.bgTertiary, borderRadius: '2px', marginTop: '0.25rem' }}>
+                          <div style={{
+                            width: `${Math.min(100, (distance / 1000 / gear.retirementKm) * 100)}%`,
+                            height: '100%',
+                            borderRadius: '2px',
+                            backgroundColor: overThreshold ? colors.danger : colors.success,
+                          }} />
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>{activities}</td>
+                    <td style={{ padding: '0.5rem' }}>{formatKm(distance)}</td>
+                    <td style={{ padding: '0.5rem' }}>{formatHours(movingTime)}</td>
+                    <td style={{ padding: '0.5rem' }}>{lastUsed ? formatDate(lastUsed) : '-'}</td>
+                    <td style={{ padding: '0.5rem' }}>
+                      <input
+                        type="number"
+                        min={0}
+                        defaultValue={gear.retirementKm || ''}
+                        onBlur={(e) => handleThresholdChange(gear.id, e.target.value)}
+                        placeholder="none"
+                        style={{ width: '80px', padding: '0.25rem' }}
+                      />
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={!!gear.retired}
+                        onChange={(e) => handleRetiredChange(gear.id, e.target.checked)}
+                      />
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>
+                      {gear.source === 'local' && (
+                        <button
+                          onClick={() => handleDelete(gear)}
+                          type="button"
+                          title="Delete"
+                          style={{ background: 'none', border: 'none', cursor: 'pointer' }}
+                        >🗑️</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="card">
+        <h3>Add Gear</h3>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="text"
+            value={newGear.name}
+            onChange={(e) => setNewGear({ ...newGear, name: e.target.value })}
+            placeholder="Name, e.g. Pegasus 40"
+            style={{ flex: '1 1 200px', padding: '0.5rem' }}
+          />
+          <select
+            value={newGear.kind}
+            onChange={(e) => setNewGear({ ...newGear, kind: e.target.value as GearItem['kind'] })}
+            style={{ padding: '0.5rem' }}
+          >
+            <option value="shoe">Shoe</option>
+            <option value="bike">Bike</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={newGear.retirementKm}
+            onChange={(e) => setNewGear({ ...newGear, retirementKm: e.target.value })}
+            placeholder="Retire at (km)"
+            style={{ width: '140px', padding: '0.5rem' }}
+          />
+          <button onClick={handleAddGear} className="btn" disabled={!newGear.name.trim()}>
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3>Device Activities Without Gear ({unassigned.length})</h3>
+        {unassigned.length === 0 ? (
+          <p style={{ color: colors.textSecondary }}>All imported activities have gear assigned.</p>
+        ) : (
+          <>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+              <button
+                onClick={() => setSelectedIds(selectedIds.size === unassigned.length ? new Set() : new Set(unassigned.map(a => a.id)))}
+                className="btn btn-secondary"
+                style={{ fontSize: '0.85rem' }}
+              >
+                {selectedIds.size === unassigned.length ? 'Select None' : 'Select All'}
+              </button>
+              <select
+                value={assignGearId}
+                onChange={(e) => setAssignGearId(e.target.value)}
+                style={{ padding: '0.5rem' }}
+              >
+                <option value="">Choose gear...</option>
+                {activeGear.map(g => (
+                  <option key={g.id} value={g.id}>{g.kind === 'shoe' ? '👟' : '🚲'} {g.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAssign}
+                className="btn"
+                disabled={!assignGearId || selectedIds.size === 0}
+              >
+                Assign to {selectedIds.size} selected
+              </button>
+            </div>
+            <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
+              {unassigned.map(a => (
+                <div
+                  key={a.id}
+                  style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', padding: '0.35rem 0', borderBottom: `1px solid ${colors.border}` }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(a.id)}
+                    onChange={() => toggleSelected(a.id)}
+                  />
+                  <button
+                    onClick={() => navigate(`/activity/${a.id}`)}
+                    type="button"
+                    style={{ background: 'none', border: 'none', cursor: 'pointer', textAlign: 'left', color: 'inherit', flex: 1 }}
+                  >
+                    {a.name}
+                  </button>
+                  <span style={{ fontSize: '0.85rem', color: colors.textSecondary }}>
+                    {a.type} • {formatDate(a.start_date_local)} • {formatKm(a.distance)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GearPage;
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { jobQueueService } from '../services/jobQueueService';
+import { Job } from '../services/database';
+
+const buttonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: '0 0.15rem',
+  fontSize: '0.9rem',
+};
+
+/** Nav bar indicator for background jobs with pause/resume/cancel */
+const JobProgress: React.FC = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  useEffect(() => jobQueueService.subscribe(setJobs), []);
+
+  const active = jobs.filter(j => j.status === 'running' || j.status === 'queued' || j.status === 'paused');
+  // Show what's running, else the latest finished job until it's dismissed
+  const job = active.find(j => j.status === 'running') || active[0] || jobs[jobs.length - 1];
+  if (!job) return null;
+
+  const percent = job.total > 0 ? Math.round((job.completed / job.total) * 100) : 0;
+  const finished = job.status === 'done' || job.status === 'cancelled';
+  const waiting = active.length - (active.includes(job) ? 1 : 0);
+
+  const handle = (action: (id: number) => Promise<void>) => () => {
+    action(job.id!).catch(err => console.error('Job action failed:', err));
+  };
+
+  return (
+    <div
+      style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.8rem', marginLeft: '1rem', whiteSpace: 'nowrap' }}
+      title={job.failed > 0 ? `${job.failed} failed` : undefined}
+    >
+      <span>
+        {job.status === 'paused' ? '⏸️' : finished ? (job.status === 'done' ? '✅' : '⏹️') : '⏳'} {job.label}
+      </span>
+      <div style={{ width: '80px', height: '6px', backgroundColor: 'rgba(255,255,255,0.25)', borderRadius: '3px' }}>
+        <div style={{ width: `${percent}%`, height: '100%', backgroundColor: '#fc4c02', borderRadius: '3px' }} />
+      </div>
+      <span>
+        {job.completed}/{job.total}{job.failed > 0 ? ` (${job.failed} failed)` : ''}
+        {waiting > 0 ? ` +${waiting} queued` : ''}
+      </span>
+      {job.status === 'paused' && (
+        <button onClick={handle(id => jobQueueService.resume(id))} type="button" title="Resume" style={buttonStyle}>▶️</button>
+      )}
+      {(job.status === 'running' || job.status === 'queued') && (
+        <button onClick={handle(id => jobQueueService.pause(id))} type="button" title="Pause" style={buttonStyle}>⏸️</button>
+      )}
+      {!finished && (
+        <button onClick={handle(id => jobQueueService.cancel(id))} type="button" title="Cancel" style={buttonStyle}>⏹️</button>
+      )}
+      {finished && (
+        <button onClick={handle(id => jobQueueService.dismiss(id))} type="button" title="Dismiss" style={buttonStyle}>✕</button>
+      )}
+    </div>
+  );
+};
+
+export default JobProgress;
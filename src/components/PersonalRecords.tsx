@@ -1,17 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { stravaService } from '../services/stravaService';
-import { StravaActivity, ActivitySegment } from '../services/database';
+import { ActivityView, ActivitySegment, ActivityCollection, db } from '../services/database';
+import { collectionService } from '../services/collectionService';
 import './PersonalRecords.css';
 
 interface PersonalRecord {
-  activity: StravaActivity;
+  activity: ActivityView;
   value: number;
   unit: string;
 }
 
 interface DistancePR {
-  segment: ActivitySegment & { activity: StravaActivity };
+  segment: ActivitySegment & { activity: ActivityView };
   distance: number;
 }
 
@@ -19,7 +20,7 @@ const PersonalRecords: React.FC = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activities, setActivities] = useState<StravaActivity[]>([]);
+  const [activities, setActivities] = useState<ActivityView[]>([]);
   const [prs, setPrs] = useState({
     longestDistance: null as PersonalRecord | null,
     highestSpeed: null as PersonalRecord | null,
@@ -31,21 +32,20 @@ const PersonalRecords: React.FC = () => {
   const [loadingSegments, setLoadingSegments] = useState(false);
   const [segmentProgress, setSegmentProgress] = useState({ loaded: 0, total: 7 });
   const [expandedDistances, setExpandedDistances] = useState<Set<number>>(new Set());
+  const [collections, setCollections] = useState<ActivityCollection[]>([]);
+  const [collectionId, setCollectionId] = useState('');
 
   useEffect(() => {
     const loadPersonalRecords = async () => {
       try {
         setLoading(true);
-        const authenticated = await stravaService.isAuthenticated();
-        
-        if (authenticated) {
-          // Fetch all activities from cache/database
-          const allActivities = await stravaService.getCachedActivities();
-          setActivities(allActivities);
-        } else {
-          const cachedActivities = await stravaService.getCachedActivities();
-          setActivities(cachedActivities);
+        setCollections(await collectionService.getCollections());
+        // Activities the user excluded from stats never count towards records
+        let allActivities = (await stravaService.getCachedUnifiedActivities()).filter(a => !a.excludeFromStats);
+        if (collectionId) {
+          allActivities = await collectionService.filterByCollection(allActivities, Number(collectionId));
         }
+        setActivities(allActivities);
       } catch (err) {
         console.error('Error loading personal records:', err);
         setError('Failed to load personal records');
@@ -55,13 +55,16 @@ const PersonalRecords: React.FC = () => {
     };
 
     loadPersonalRecords();
-  }, []);
+  }, [collectionId]);
 
   // Calculate personal records whenever activities change
   useEffect(() => {
     if (activities.length > 0) {
       calculatePersonalRecords();
       loadDistancePRs();
+    } else {
+      setPrs({ longestDistance: null, highestSpeed: null, highestElevation: null, longestMovingTime: null, highestAveragePace: null });
+      setDistancePRs(new Map());
     }
   }, [activities]);
 
@@ -78,11 +81,11 @@ const PersonalRecords: React.FC = () => {
     try {
       const distances = [5, 10, 15, 20, 21.1, 30, 42.2];
       const allPRs = new Map();
+      const activitiesById = new Map(activities.map(a => [a.id, a]));
       
       for (let i = 0; i < distances.length; i++) {
         const distance = distances[i];
         // Get all segments for this distance, sorted by time (fastest first)
-        const db = new (await import('../services/database')).AthleteInsightDB();
         const segments = await db.activitySegments
           .where('distanceKm')
           .equals(distance)
@@ -93,6 +96,7 @@ const PersonalRecords: React.FC = () => {
           const uniqueByActivity = new Map<string, typeof segments[0]>();
           
           segments
+            .filter(segment => activitiesById.has(segment.activityId))
             .sort((a, b) => a.timeSecs - b.timeSecs)
             .forEach(segment => {
               if (!uniqueByActivity.has(segment.activityId)) {
@@ -105,7 +109,7 @@ const PersonalRecords: React.FC = () => {
             .slice(0, 5)
             .map(async (segment) => {
               // Enrich segment with activity data
-              const activity = await db.activities.get(segment.activityId);
+              const activity = activitiesById.get(segment.activityId);
               // Calculate avgSpeed if missing (for legacy segments)
               const avgSpeed = segment.avgSpeed ?? ((segment.distanceKm / segment.timeSecs) * 3600);
               return {
@@ -314,7 +318,7 @@ const PersonalRecords: React.FC = () => {
     );
   }
 
-  if (activities.length === 0) {
+  if (activities.length === 0 && !collectionId) {
     return (
       <div className="personal-records-container">
         <div className="no-activities">No activities available</div>
@@ -327,6 +331,19 @@ const PersonalRecords: React.FC = () => {
       <h1>Personal Records</h1>
       <div className="pr-stats">
         <p>Total Activities: {activities.length}</p>
+        {collections.length > 0 && (
+          <select
+            value={collectionId}
+            onChange={(e) => setCollectionId(e.target.value)}
+            title="Only count activities in a collection"
+            style={{ padding: '0.3rem 0.5rem', borderRadius: '4px' }}
+          >
+            <option value="">All activities</option>
+            {collections.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Activity-Based Records */}
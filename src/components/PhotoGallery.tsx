@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { ActivityDetail } from '../services/database';
+import { photoService, PhotoWithSrc } from '../services/photoService';
+import { useThemeColors } from '../context/ThemeContext';
+
+interface PhotoGalleryProps {
+  activity: ActivityDetail;
+}
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ activity }) => {
+  const colors = useThemeColors();
+  const [photos, setPhotos] = useState<PhotoWithSrc[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const activityId = activity.id;
+
+  useEffect(() => {
+    let cancelled = false;
+    let shown: PhotoWithSrc[] = [];
+
+    const show = async () => {
+      const next = await photoService.getPhotosWithSrc(activityId);
+      if (cancelled) {
+        photoService.releaseUrls(next);
+        return;
+      }
+      photoService.releaseUrls(shown);
+      shown = next;
+      setPhotos(next);
+    };
+
+    (async () => {
+      try {
+        await show();
+        // Cached photos show straight away; fetch the rest when online
+        if (navigator.onLine && await photoService.needsFetch(activityId)) {
+          setLoading(true);
+          await photoService.fetchPhotos(activityId);
+          await show();
+        }
+      } catch (err) {
+        console.error('Failed to load photos:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load photos');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      photoService.releaseUrls(shown);
+    };
+  }, [activityId, reloadKey]);
+
+  const refresh = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      await photoService.fetchPhotos(activity.id);
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      console.error('Failed to refresh photos:', err);
+      setError(err instanceof Error ? err.message : 'Failed to refresh photos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (photos.length === 0 && !loading && !error) {
+    return null;
+  }
+
+  const current = selected !== null ? photos[selected] : undefined;
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3>Photos {photos.length > 0 && `(${photos.length})`}</h3>
+        <button onClick={refresh} className="btn btn-secondary" disabled={loading || !navigator.onLine} style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}>
+          {loading ? 'Loading...' : '🔄 Refresh'}
+        </button>
+      </div>
+      {error && (
+        <p style={{ color: colors.errorText, fontSize: '0.9rem' }}>⚠️ {error}</p>
+      )}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: '0.5rem' }}>
+        {photos.map(({ photo, src }, i) => (
+          <button
+            key={photo.id}
+            onClick={() => setSelected(i)}
+            title={photo.caption || (photo.blob ? 'Available offline' : 'Shown from Strava - not cached')}
+            style={{ padding: 0, border: `1px solid ${colors.border}`, borderRadius: '4px', overflow: 'hidden', cursor: 'pointer', background: colors.bgTertiary, aspectRatio: '1' }}
+          >
+            <img src={src} alt={photo.caption || activity.name} loading="lazy" style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }} />
+          </button>
+        ))}
+      </div>
+
+      {current && (
+        <div
+          onClick={() => setSelected(null)}
+          style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,0.85)', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', zIndex: 2000, cursor: 'zoom-out' }}
+        >
+          <img src={current.src} alt={current.photo.caption || activity.name} style={{ maxWidth: '95vw', maxHeight: '85vh', objectFit: 'contain' }} />
+          {current.photo.caption && (
+            <p style={{ color: 'white', marginTop: '0.75rem' }}>{current.photo.caption}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoGallery;
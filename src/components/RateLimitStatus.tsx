@@ -0,0 +1,38 @@
+import React, { useState, useEffect } from 'react';
+import { stravaRequestQueue, RateLimitStatus as QuotaStatus } from '../services/requestQueue';
+import { useThemeColors } from '../context/ThemeContext';
+
+/** Remaining Strava API quota, and when requests are paused for a reset */
+const RateLimitStatus: React.FC = () => {
+  const colors = useThemeColors();
+  const [status, setStatus] = useState<QuotaStatus>(stravaRequestQueue.getStatus());
+
+  useEffect(() => stravaRequestQueue.subscribe(setStatus), []);
+
+  if (status.shortLimit === undefined && !status.pausedUntil) {
+    return null;
+  }
+
+  const shortLeft = status.shortLimit !== undefined ? status.shortLimit - (status.shortUsage ?? 0) : undefined;
+  const dailyLeft = status.dailyLimit !== undefined ? status.dailyLimit - (status.dailyUsage ?? 0) : undefined;
+  const paused = !!status.pausedUntil && status.pausedUntil > Date.now();
+
+  return (
+    <div
+      style={{
+        padding: '0.5rem 1rem',
+        backgroundColor: paused ? colors.warningBg : colors.bgTertiary,
+        borderRadius: '4px',
+        fontSize: '0.9rem',
+        color: paused ? colors.warningText : colors.textSecondary
+      }}
+      title="Strava allows a limited number of requests per 15 minutes and per day"
+    >
+      {paused
+        ? `⏸️ Rate limit reached - resuming at ${new Date(status.pausedUntil!).toLocaleTimeString()}`
+        : `📡 API quota: ${shortLeft}/${status.shortLimit} (15 min) • ${dailyLeft}/${status.dailyLimit} today`}
+    </div>
+  );
+};
+
+export default RateLimitStatus;
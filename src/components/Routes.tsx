@@ -35,7 +35,7 @@ const RoutesPage: React.FC = () => {
       const activities = await routeGroupingService.getRouteActivities(route.id!);
       const enriched = await Promise.all(
         activities.map(async (ra) => {
-          const activity = await db.activities.get(ra.activityId);
+          const activity = await db.allActivities.get(ra.activityId);
           return {
             ...ra,
             activityName: activity?.name || `Activity #${ra.activityId}`,
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { segmentService } from '../services/segmentService';
-import { db, Segment, SegmentEffort } from '../services/database';
+import { db, Segment, SegmentEffort, ActivityCollection, Job } from '../services/database';
+import { collectionService } from '../services/collectionService';
+import { jobQueueService } from '../services/jobQueueService';
 import './PersonalRecords.css';
 
 const SCAN_CONFIG_KEY = 'segmentScanConfig';
@@ -41,6 +43,14 @@ function saveScanConfig(config: ScanConfig): void {
   }
 }
 
+// Efforts are limited to the selected collection's activities, if any
+async function getEffortsInCollection(segmentId: number, collectionId: string): Promise<SegmentEffort[]> {
+  const efforts = await segmentService.getEffortsForSegment(segmentId);
+  if (!collectionId) return efforts;
+  const ids = await collectionService.getCollectionActivityIds(Number(collectionId));
+  return efforts.filter(e => ids.has(e.activityId));
+}
+
 const SegmentsPage: React.FC = () => {
   const navigate = useNavigate();
   const [segments, setSegments] = useState<Segment[]>([]);
@@ -49,24 +59,35 @@ const SegmentsPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [effortCounts, setEffortCounts] = useState<Map<number, number>>(new Map());
   const [bestEfforts, setBestEfforts] = useState<Map<number, SegmentEffort>>(new Map());
-  const [scanning, setScanning] = useState(false);
-  const [scanProgress, setScanProgress] = useState({ done: 0, total: 0 });
+  const [scanJob, setScanJob] = useState<Job | undefined>();
   const [renamingId, setRenamingId] = useState<number | null>(null);
   const [renameValue, setRenameValue] = useState('');
   const [showScanConfig, setShowScanConfig] = useState(false);
   const [scanDirection, setScanDirection] = useState<'newest' | 'oldest'>(() => loadScanConfig().direction);
   const [scanLimit, setScanLimit] = useState<number>(() => loadScanConfig().limit);
   const [scanLimitEnabled, setScanLimitEnabled] = useState<boolean>(() => loadScanConfig().limitEnabled);
+  const [collections, setCollections] = useState<ActivityCollection[]>([]);
+  const [collectionId, setCollectionId] = useState('');
+
+  useEffect(() => {
+    collectionService.getCollections().then(setCollections).catch(err => {
+      console.error('Failed to load collections:', err);
+    });
+  }, []);
 
   useEffect(() => {
     loadSegments();
   }, []);
 
+  useEffect(() => jobQueueService.subscribe(jobs => {
+    setScanJob(jobs.find(j => j.kind === 'rescanSegments' && ['queued', 'running', 'paused'].includes(j.status)));
+  }), []);
+
   useEffect(() => {
     saveScanConfig({ direction: scanDirection, limit: scanLimit, limitEnabled: scanLimitEnabled });
   }, [scanDirection, scanLimit, scanLimitEnabled]);
 
-  const loadSegments = async () => {
+  const loadSegments = async (filterId = '') => {
     setLoading(true);
     try {
       const all = await segmentService.getAllSegments();
@@ -75,11 +96,19 @@ const SegmentsPage: React.FC = () => {
       const counts = new Map<number, number>();
       const bests = new Map<number, SegmentEffort>();
 
-      for (const seg of all) {
-        const count = await segmentService.getEffortCountForSegment(seg.id!);
-        counts.set(seg.id!, count);
-        const best = await segmentService.getBestEffortForSegment(seg.id!);
-        if (best) bests.set(seg.id!, best);
+      if (filterId) {
+        for (const seg of all) {
+          const efforts = await getEffortsInCollection(seg.id!, filterId);
+          counts.set(seg.id!, efforts.length);
+          if (efforts[0]) bests.set(seg.id!, efforts[0]);
+        }
+      } else {
+        for (const seg of all) {
+          const count = await segmentService.getEffortCountForSegment(seg.id!);
+          counts.set(seg.id!, count);
+          const best = await segmentService.getBestEffortForSegment(seg.id!);
+          if (best) bests.set(seg.id!, best);
+        }
       }
 
       setEffortCounts(counts);
@@ -99,10 +128,10 @@ const SegmentsPage: React.FC = () => {
     }
     setSelectedSegment(seg);
     try {
-      const effortsData = await segmentService.getEffortsForSegment(seg.id!);
+      const effortsData = await getEffortsInCollection(seg.id!, collectionId);
       const enriched = await Promise.all(
         effortsData.map(async (eff) => {
-          const activity = await db.activities.get(eff.activityId);
+          const activity = await db.allActivities.get(eff.activityId);
           return {
             ...eff,
             activityName: activity?.name || `Activity #${eff.activityId}`,
@@ -118,26 +147,22 @@ const SegmentsPage: React.FC = () => {
   };
 
   const handleScanAll = async () => {
-    setScanning(true);
-    setScanProgress({ done: 0, total: 0 });
     try {
-      await segmentService.rescanAll(
+      const activityIds = await segmentService.getRescanCandidates(
         scanLimitEnabled && scanLimit > 0
           ? { direction: scanDirection, limit: scanLimit }
-          : { direction: scanDirection },
-        (done, total) => {
-          setScanProgress({ done, total });
-        }
+          : { direction: scanDirection }
       );
-      await loadSegments();
+      // Runs in the background; refresh here if the page is still open when it ends
+      const jobId = await jobQueueService.enqueue('rescanSegments', 'Rescan segments', activityIds);
+      await jobQueueService.whenFinished(jobId);
+      await loadSegments(collectionId);
       if (selectedSegment) {
         await selectSegment(selectedSegment);
       }
     } catch (err) {
       console.error('Scan failed:', err);
-    } finally {
-      setScanning(false);
-      setScanProgress({ done: 0, total: 0 });
+      alert(err instanceof Error ? err.message : 'Scan failed');
     }
   };
 
@@ -147,7 +172,7 @@ const SegmentsPage: React.FC = () => {
       await segmentService.updateSegment(id, { name: renameValue.trim() });
       setRenamingId(null);
       setRenameValue('');
-      await loadSegments();
+      await loadSegments(collectionId);
       if (selectedSegment?.id === id) {
         setSelectedSegment(prev => prev ? { ...prev, name: renameValue.trim() } : null);
       }
@@ -164,7 +189,7 @@ const SegmentsPage: React.FC = () => {
         setSelectedSegment(null);
         setEfforts([]);
       }
-      await loadSegments();
+      await loadSegments(collectionId);
     } catch (err) {
       console.error('Delete failed:', err);
     }
@@ -197,6 +222,24 @@ const SegmentsPage: React.FC = () => {
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
         <h1 style={{ margin: 0 }}>Segments</h1>
         <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          {collections.length > 0 && (
+            <select
+              value={collectionId}
+              onChange={e => {
+                setCollectionId(e.target.value);
+                setSelectedSegment(null);
+                setEfforts([]);
+                loadSegments(e.target.value);
+              }}
+              title="Only show efforts from a collection"
+              style={{ padding: '0.3rem 0.5rem', fontSize: '0.85rem', borderRadius: '4px' }}
+            >
+              <option value="">All activities</option>
+              {collections.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          )}
           <button
             onClick={() => setShowScanConfig(!showScanConfig)}
             className="btn btn-secondary"
@@ -208,10 +251,10 @@ const SegmentsPage: React.FC = () => {
           <button
             onClick={handleScanAll}
             className="btn btn-secondary"
-            disabled={scanning}
+            disabled={!!scanJob}
             type="button"
           >
-            {scanning ? `Scanning ${scanProgress.done}/${scanProgress.total}...` : 'Recalculate All'}
+            {scanJob ? `Scanning ${scanJob.completed}/${scanJob.total}...` : 'Recalculate All'}
           </button>
         </div>
       </div>
@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { stravaService } from '../services/stravaService';
-import { StravaSettings, StravaAthlete, db } from '../services/database';
+import { stravaService, AuthStatus } from '../services/stravaService';
+import { storageService, StorageQuota, StreamPrunePreview } from '../services/storageService';
+import { profileService, Profile, DEFAULT_PROFILE_ID } from '../services/profileService';
+import { integrityService, IntegrityReport } from '../services/integrityService';
+import { reconcileService, ReconcileReport, TotalsReport } from '../services/reconcileService';
+import { StravaSettings, StravaAthlete, ImportConflictReport, ImportMode, db } from '../services/database';
 import { useThemeColors } from '../context/ThemeContext';
 
 const Settings: React.FC = () => {
@@ -18,15 +22,35 @@ const Settings: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [authStatus, setAuthStatus] = useState<AuthStatus>(stravaService.getAuthStatus());
   const [dataStats, setDataStats] = useState<any>(null);
   const [importing, setImporting] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [exportSecret, setExportSecret] = useState(false);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; text: string; report: ImportConflictReport } | null>(null);
+  const [storageQuota, setStorageQuota] = useState<StorageQuota | null>(null);
+  const [pruneYears, setPruneYears] = useState<string>('3');
+  const [prunePreview, setPrunePreview] = useState<StreamPrunePreview | null>(null);
+  const [pruning, setPruning] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>(() => profileService.getProfiles());
+  const [newProfileName, setNewProfileName] = useState('');
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [checkingIntegrity, setCheckingIntegrity] = useState(false);
+  const [reconcileFrom, setReconcileFrom] = useState(() => new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+  const [reconcileTo, setReconcileTo] = useState(() => new Date().toISOString().split('T')[0]);
+  const [reconcileReport, setReconcileReport] = useState<ReconcileReport | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+  const [totalsReport, setTotalsReport] = useState<TotalsReport | null>(null);
+  const [comparingTotals, setComparingTotals] = useState(false);
+  const activeProfile = profileService.getActiveProfile();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
+  useEffect(() => stravaService.subscribeAuth(setAuthStatus), []);
+
   useEffect(() => {
     if (isAuthenticated) {
       loadDataStats();
@@ -60,22 +84,77 @@ const Settings: React.FC = () => {
     try {
       const stats = await db.getDataStats();
       setDataStats(stats);
+      setStorageQuota(await storageService.getQuota());
     } catch (error) {
       console.error('Error loading data stats:', error);
     }
   };
 
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  };
+
+  const handleRequestPersistence = async () => {
+    try {
+      const granted = await storageService.requestPersistence();
+      setStorageQuota(await storageService.getQuota());
+      setMessage(granted
+        ? { type: 'success', text: 'Persistent storage granted. The browser will not evict your data automatically.' }
+        : { type: 'error', text: 'The browser declined persistent storage. Installing the app or bookmarking it can help.' });
+    } catch (error) {
+      console.error('Error requesting persistent storage:', error);
+      setMessage({ type: 'error', text: 'Failed to request persistent storage.' });
+    }
+  };
+
+  const handlePreviewPrune = async () => {
+    const years = parseInt(pruneYears);
+    if (!years || years < 1) {
+      setMessage({ type: 'error', text: 'Please enter an age of at least 1 year' });
+      return;
+    }
+    try {
+      setPrunePreview(await storageService.previewStreamPrune(years));
+    } catch (error) {
+      console.error('Error previewing prune:', error);
+      setMessage({ type: 'error', text: 'Failed to preview stream pruning.' });
+    }
+  };
+
+  const handlePruneStreams = async () => {
+    if (!prunePreview) return;
+    if (!window.confirm(`Delete raw stream data for ${prunePreview.activities} activities? Personal records and segment efforts are kept, but charts and maps for these activities will no longer be available.`)) {
+      return;
+    }
+    try {
+      setPruning(true);
+      const count = await storageService.pruneStreams(parseInt(pruneYears));
+      setPrunePreview(null);
+      setMessage({ type: 'success', text: `Pruned streams for ${count} activities.` });
+      loadDataStats();
+    } catch (error) {
+      console.error('Error pruning streams:', error);
+      setMessage({ type: 'error', text: 'Failed to prune streams. Please try again.' });
+    } finally {
+      setPruning(false);
+    }
+  };
+
   const handleExportData = async () => {
     try {
       setExporting(true);
-      const data = await stravaService.exportAllData();
+      const data = await stravaService.exportAllData({ includeClientSecret: exportSecret });
       
       // Create and download file
       const blob = new Blob([data], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `athlete-insight-backup-${new Date().toISOString().split('T')[0]}.json`;
+      const profileSlug = activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      a.download = `athlete-insight-backup-${profileSlug ? profileSlug + '-' : ''}${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -90,6 +169,41 @@ const Settings: React.FC = () => {
     }
   };
 
+  const handleCreateProfile = () => {
+    try {
+      const profile = profileService.createProfile(newProfileName);
+      setNewProfileName('');
+      setProfiles(profileService.getProfiles());
+      if (window.confirm(`Profile "${profile.name}" created. Switch to it now?`)) {
+        profileService.switchProfile(profile.id);
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create profile' });
+    }
+  };
+
+  const handleRenameProfile = (profile: Profile) => {
+    const name = prompt('Rename profile:', profile.name);
+    if (!name) return;
+    try {
+      profileService.renameProfile(profile.id, name);
+      setProfiles(profileService.getProfiles());
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to rename profile' });
+    }
+  };
+
+  const handleDeleteProfile = async (profile: Profile) => {
+    if (!window.confirm(`Delete profile "${profile.name}" and ALL of its data? This cannot be undone.`)) return;
+    try {
+      await profileService.deleteProfile(profile.id);
+      setProfiles(profileService.getProfiles());
+      setMessage({ type: 'success', text: `Profile "${profile.name}" deleted` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete profile' });
+    }
+  };
+
   const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -105,9 +219,43 @@ const Settings: React.FC = () => {
         throw new Error('Invalid JSON file');
       }
       
-      await stravaService.importAllData(text);
+      const report = await stravaService.previewImport(text);
+      setImportPreview({ fileName: file.name, text, report });
+      setMessage(null);
+    } catch (error) {
+      console.error('Import error:', error);
+      setMessage({ 
+        type: 'error', 
+        text: `Failed to import data: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      });
+    } finally {
+      setImporting(false);
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleConfirmImport = async (mode: ImportMode) => {
+    if (!importPreview) return;
+    if (mode === 'replace' && !window.confirm('Replace all current data with this backup? Activities synced since the backup was made will be lost.')) {
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const report = await stravaService.importAllData(importPreview.text, mode);
+      setImportPreview(null);
+
+      if (report.issues.length > 0) {
+        // Leave the page up so the problems can be reviewed and repaired
+        setIntegrityReport(report);
+        setMessage({ type: 'error', text: `Data ${mode === 'merge' ? 'merged' : 'imported'}, but the integrity check found ${report.issues.length} problem(s). Review them under Data Integrity.` });
+        return;
+      }
       
-      setMessage({ type: 'success', text: 'Data imported successfully! Please refresh the page.' });
+      setMessage({ type: 'success', text: `Data ${mode === 'merge' ? 'merged' : 'imported'} successfully! Please refresh the page.` });
       
       // Reload data after import
       setTimeout(() => {
@@ -122,10 +270,99 @@ const Settings: React.FC = () => {
       });
     } finally {
       setImporting(false);
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+    }
+  };
+
+  const handleIntegrityCheck = async () => {
+    try {
+      setCheckingIntegrity(true);
+      setIntegrityReport(await integrityService.check());
+    } catch (error) {
+      console.error('Integrity check error:', error);
+      setMessage({ type: 'error', text: 'Failed to run the integrity check' });
+    } finally {
+      setCheckingIntegrity(false);
+    }
+  };
+
+  const handleIntegrityRepair = async () => {
+    if (!integrityReport) return;
+    if (!window.confirm(`Repair ${integrityReport.issues.length} problem(s)? Orphaned and duplicate rows will be deleted.`)) return;
+    try {
+      setCheckingIntegrity(true);
+      const fixed = await integrityService.repair(integrityReport);
+      setIntegrityReport(await integrityService.check());
+      setMessage({ type: 'success', text: `Repaired ${fixed} problem(s)` });
+      loadDataStats();
+    } catch (error) {
+      console.error('Integrity repair error:', error);
+      setMessage({ type: 'error', text: `Repair failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    } finally {
+      setCheckingIntegrity(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    try {
+      setReconciling(true);
+      setReconcileReport(await reconcileService.reconcile(reconcileFrom, reconcileTo));
+    } catch (error) {
+      console.error('Reconcile error:', error);
+      setMessage({ type: 'error', text: `Failed to compare with Strava: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleCompareTotals = async () => {
+    try {
+      setComparingTotals(true);
+      setTotalsReport(await reconcileService.compareTotals());
+    } catch (error) {
+      console.error('Compare totals error:', error);
+      setMessage({ type: 'error', text: `Failed to compare totals: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    } finally {
+      setComparingTotals(false);
+    }
+  };
+
+  const handleApplyRemoteChanges = async () => {
+    if (!reconcileReport) return;
+    try {
+      setReconciling(true);
+      const updated = await reconcileService.applyChanges(reconcileReport.changed);
+      setReconcileReport({ ...reconcileReport, changed: [] });
+      setMessage({ type: 'success', text: `Updated ${updated} activities from Strava` });
+    } catch (error) {
+      console.error('Apply changes error:', error);
+      setMessage({ type: 'error', text: 'Failed to update activities' });
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleRemoteDeleted = async (action: 'archive' | 'remove', ids: string[]) => {
+    if (!reconcileReport || ids.length === 0) return;
+    if (action === 'remove' && !window.confirm(`Delete ${ids.length} activities along with their efforts, route entries and records? This cannot be undone.`)) return;
+    try {
+      setReconciling(true);
+      if (action === 'archive') {
+        await reconcileService.archive(ids);
+        const now = Date.now();
+        setReconcileReport({
+          ...reconcileReport,
+          deleted: reconcileReport.deleted.map(a => (ids.includes(a.id) ? { ...a, archivedAt: now } : a))
+        });
+      } else {
+        await reconcileService.remove(ids);
+        setReconcileReport({ ...reconcileReport, deleted: reconcileReport.deleted.filter(a => !ids.includes(a.id)) });
+        loadDataStats();
       }
+    } catch (error) {
+      console.error('Reconcile action error:', error);
+      setMessage({ type: 'error', text: `Failed to ${action} activities` });
+    } finally {
+      setReconciling(false);
     }
   };
 
@@ -143,11 +380,17 @@ const Settings: React.FC = () => {
     setMessage(null);
 
     try {
-      if (!settings.clientId || !settings.clientSecret) {
-        throw new Error('Client ID and Client Secret are required');
+      const tokenProxyUrl = settings.tokenProxyUrl?.trim() || undefined;
+      if (!settings.clientId || (!settings.clientSecret && !tokenProxyUrl)) {
+        throw new Error('Client ID and either a Client Secret or a Token Proxy URL are required');
       }
 
-      await stravaService.saveSettings(settings);
+      // With a proxy the secret lives on the proxy server only
+      await stravaService.saveSettings({
+        ...settings,
+        tokenProxyUrl,
+        clientSecret: tokenProxyUrl ? undefined : settings.clientSecret,
+      });
       setMessage({ type: 'success', text: 'Settings saved successfully!' });
     } catch (error) {
       setMessage({ 
@@ -303,18 +546,35 @@ const Settings: React.FC = () => {
         </div>
 
         <div className="form-group">
-          <label htmlFor="clientSecret">Client Secret</label>
+          <label htmlFor="tokenProxyUrl">Token Proxy URL (optional)</label>
           <input
-            type="password"
-            id="clientSecret"
-            name="clientSecret"
-            value={settings.clientSecret || ''}
+            type="url"
+            id="tokenProxyUrl"
+            name="tokenProxyUrl"
+            value={settings.tokenProxyUrl || ''}
             onChange={handleInputChange}
-            placeholder="Your Strava app Client Secret"
-            required
+            placeholder="https://your-proxy.example.com/token"
           />
+          <div style={{ fontSize: '0.85rem', color: colors.textSecondary, marginTop: '0.25rem' }}>
+            A self-hosted proxy (see token-proxy/ in the repository) keeps the Client Secret out of the browser.
+          </div>
         </div>
 
+        {!settings.tokenProxyUrl && (
+          <div className="form-group">
+            <label htmlFor="clientSecret">Client Secret</label>
+            <input
+              type="password"
+              id="clientSecret"
+              name="clientSecret"
+              value={settings.clientSecret || ''}
+              onChange={handleInputChange}
+              placeholder="Your Strava app Client Secret"
+              required
+            />
+          </div>
+        )}
+
         <button type="submit" className="btn" disabled={saving}>
           {saving ? 'Saving...' : 'Save Settings'}
         </button>
@@ -326,6 +586,15 @@ const Settings: React.FC = () => {
           <div>
             <p style={{ color: colors.success, marginBottom: '1rem' }}>✓ Connected to Strava</p>
 
+            {authStatus.missingScopes.length > 0 && (
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '0.75rem 1rem', marginBottom: '1rem', backgroundColor: colors.warningBg, color: colors.warningText, borderRadius: '4px' }}>
+                <span>⚠️ Strava didn't grant {authStatus.missingScopes.join(', ')} - some features won't work until you reconnect and allow them.</span>
+                <button onClick={handleConnectStrava} className="btn btn-secondary" style={{ whiteSpace: 'nowrap' }}>
+                  Reconnect
+                </button>
+              </div>
+            )}
+
             <div style={{
               display: 'flex',
               alignItems: 'center',
@@ -376,9 +645,15 @@ const Settings: React.FC = () => {
           </div>
         ) : (
           <div>
-            <p style={{ color: colors.textSecondary, marginBottom: '1rem' }}>
-              Not connected to Strava. Save your settings first, then connect.
-            </p>
+            {authStatus.state === 'reauthRequired' ? (
+              <p style={{ color: colors.warningText, backgroundColor: colors.warningBg, padding: '0.75rem 1rem', borderRadius: '4px', marginBottom: '1rem' }}>
+                ⚠️ {authStatus.reason}
+              </p>
+            ) : (
+              <p style={{ color: colors.textSecondary, marginBottom: '1rem' }}>
+                Not connected to Strava. Save your settings first, then connect.
+              </p>
+            )}
             <button onClick={handleConnectStrava} className="btn">
               Connect to Strava
             </button>
@@ -480,9 +755,9 @@ const Settings: React.FC = () => {
 
       {/* FIT File Import */}
       <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
-        <h3>FIT File Import</h3>
+        <h3>Activity File Import</h3>
         <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
-          Import activities from Garmin, Wahoo, Coros, and other devices using .fit files.
+          Import activities from Garmin, Wahoo, Coros, other devices and phone apps using .fit, .gpx or .tcx files.
         </p>
         <Link
           to="/import"
@@ -500,6 +775,55 @@ const Settings: React.FC = () => {
         </Link>
       </div>
 
+      {/* Profiles */}
+      <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
+        <h3>Profiles</h3>
+        <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+          Each profile keeps its own Strava credentials, athlete settings and activity data on this device.
+          Export and import below only affect the active profile.
+        </p>
+        <div style={{ marginBottom: '1rem' }}>
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.4rem 0', borderBottom: `1px solid ${colors.border}` }}
+            >
+              <span style={{ flex: 1, fontWeight: profile.id === activeProfile.id ? 600 : undefined }}>
+                {profile.name}
+                {profile.id === activeProfile.id && (
+                  <span style={{ marginLeft: '0.5rem', fontSize: '0.8rem', color: colors.success }}>active</span>
+                )}
+              </span>
+              {profile.id !== activeProfile.id && (
+                <button onClick={() => profileService.switchProfile(profile.id)} className="btn btn-secondary" style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}>
+                  Switch
+                </button>
+              )}
+              <button onClick={() => handleRenameProfile(profile)} className="btn btn-secondary" style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}>
+                Rename
+              </button>
+              {profile.id !== activeProfile.id && profile.id !== DEFAULT_PROFILE_ID && (
+                <button onClick={() => handleDeleteProfile(profile)} className="btn" style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem', backgroundColor: colors.danger, borderColor: colors.danger }}>
+                  Delete
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input
+            type="text"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            placeholder="New profile name"
+            style={{ flex: 1, padding: '0.5rem' }}
+          />
+          <button onClick={handleCreateProfile} className="btn" disabled={!newProfileName.trim()}>
+            Add Profile
+          </button>
+        </div>
+      </div>
+
       {/* Data Management */}
       <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
         <h3>Data Management</h3>
@@ -513,6 +837,42 @@ const Settings: React.FC = () => {
               <div><strong>Athletes:</strong> {dataStats.athlete}</div>
               <div><strong>Total Size:</strong> {dataStats.totalSize}</div>
             </div>
+            {dataStats.streamStorage?.activities > 0 && (
+              <div style={{ marginTop: '1rem', fontSize: '0.9rem' }}>
+                <strong>Stream Storage:</strong>{' '}
+                {(dataStats.streamStorage.encodedBytes / 1024 / 1024).toFixed(2)} MB binary vs{' '}
+                {(dataStats.streamStorage.rawBytes / 1024 / 1024).toFixed(2)} MB as plain arrays
+                {dataStats.streamStorage.rawBytes > 0 && (
+                  <span style={{ color: colors.success }}>
+                    {' '}({Math.round((1 - dataStats.streamStorage.encodedBytes / dataStats.streamStorage.rawBytes) * 100)}% smaller)
+                  </span>
+                )}
+                <span style={{ color: colors.textSecondary }}> across {dataStats.streamStorage.activities} activities</span>
+              </div>
+            )}
+            {dataStats.tables?.length > 0 && (
+              <details style={{ marginTop: '1rem', fontSize: '0.9rem' }}>
+                <summary style={{ cursor: 'pointer' }}>Per-table estimates</summary>
+                <table style={{ width: '100%', marginTop: '0.5rem', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left', color: colors.textSecondary }}>
+                      <th>Table</th>
+                      <th style={{ textAlign: 'right' }}>Rows</th>
+                      <th style={{ textAlign: 'right' }}>Size</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataStats.tables.map((t: { table: string; rows: number; estimatedBytes: number }) => (
+                      <tr key={t.table} style={{ borderTop: `1px solid ${colors.border}` }}>
+                        <td>{t.table}</td>
+                        <td style={{ textAlign: 'right' }}>{t.rows}</td>
+                        <td style={{ textAlign: 'right' }}>{formatBytes(t.estimatedBytes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            )}
           </div>
         )}
 
@@ -524,6 +884,17 @@ const Settings: React.FC = () => {
               <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
                 Download all your activity data as a JSON file for backup or transfer.
               </p>
+              {settings.clientSecret && (
+                <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '0.75rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={exportSecret}
+                    onChange={(e) => setExportSecret(e.target.checked)}
+                    style={{ width: 'auto', marginRight: '0.5rem' }}
+                  />
+                  Include Strava Client Secret
+                </label>
+              )}
               <button 
                 onClick={handleExportData}
                 className="btn"
@@ -539,7 +910,7 @@ const Settings: React.FC = () => {
           <div style={{ padding: '1rem', border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
             <h4 style={{ marginBottom: '0.5rem' }}>Import Data</h4>
             <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
-              Import previously exported data. This will replace all current data.
+              Import previously exported data. Merge it into your current data or replace everything.
             </p>
             <input
               type="file"
@@ -554,50 +925,359 @@ const Settings: React.FC = () => {
               disabled={importing}
               style={{ width: '100%', backgroundColor: colors.success, borderColor: colors.success }}
             >
-              {importing ? 'Importing...' : '📤 Import Data'}
+              {importing ? 'Reading...' : '📤 Import Data'}
             </button>
           </div>
         </div>
 
+        {importPreview && (
+          <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: colors.bgTertiary, border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
+            <h4 style={{ marginBottom: '0.5rem' }}>Import Preview — {importPreview.fileName}</h4>
+            <p style={{ fontSize: '0.85rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+              Backup v{importPreview.report.version} from {new Date(importPreview.report.timestamp).toLocaleString()}
+              {importPreview.report.migratedFrom !== undefined && ` (upgraded from v${importPreview.report.migratedFrom})`}
+              {importPreview.report.profile && ` • exported from profile "${importPreview.report.profile}"`}
+              {` • importing into "${activeProfile.name}"`}
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '0.5rem', fontSize: '0.9rem', marginBottom: '1rem' }}>
+              <div><strong>New activities:</strong> {importPreview.report.activities.added}</div>
+              <div><strong>Updated activities:</strong> {importPreview.report.activities.updated}</div>
+              <div><strong>Unchanged activities:</strong> {importPreview.report.activities.unchanged}</div>
+              <div><strong>Segments:</strong> {importPreview.report.segments.added} new, {importPreview.report.segments.duplicates} existing</div>
+              <div><strong>Segment efforts:</strong> {importPreview.report.segmentEfforts.added} new, {importPreview.report.segmentEfforts.duplicates} existing{importPreview.report.segmentEfforts.orphaned > 0 && `, ${importPreview.report.segmentEfforts.orphaned} skipped (segment not in backup)`}</div>
+              <div><strong>Routes:</strong> {importPreview.report.routeGroups.added} new, {importPreview.report.routeGroups.duplicates} existing</div>
+              <div><strong>Route activities:</strong> {importPreview.report.routeActivities.added} new, {importPreview.report.routeActivities.duplicates} existing{importPreview.report.routeActivities.orphaned > 0 && `, ${importPreview.report.routeActivities.orphaned} skipped (route not in backup)`}</div>
+              <div><strong>Distance records:</strong> {importPreview.report.activitySegments.added} new, {importPreview.report.activitySegments.duplicates} existing</div>
+              <div><strong>Local edits:</strong> {importPreview.report.activityOverrides.added} new, {importPreview.report.activityOverrides.duplicates} existing</div>
+              <div><strong>Tags:</strong> {importPreview.report.activityTags.added} new, {importPreview.report.activityTags.duplicates} existing</div>
+              <div><strong>Collections:</strong> {importPreview.report.collections.added} new, {importPreview.report.collections.duplicates} merged by name</div>
+              <div><strong>Gear:</strong> {importPreview.report.gear.added} new, {importPreview.report.gear.duplicates} existing</div>
+            </div>
+
+            {importPreview.report.conflicts.length > 0 && (
+              <div style={{ marginBottom: '1rem' }}>
+                <h5 style={{ marginBottom: '0.5rem' }}>Conflicts ({importPreview.report.conflicts.length}) — backup values will win on merge</h5>
+                <div style={{ maxHeight: '200px', overflowY: 'auto', fontSize: '0.85rem' }}>
+                  {importPreview.report.conflicts.map(conflict => (
+                    <div key={conflict.incomingId} style={{ padding: '0.4rem 0', borderBottom: `1px solid ${colors.border}` }}>
+                      <strong>{conflict.localName}</strong>
+                      {conflict.incomingName !== conflict.localName && <> → <strong>{conflict.incomingName}</strong></>}
+                      <span style={{ color: colors.textSecondary }}>
+                        {' '}(matched by {conflict.matchedBy === 'id' ? 'UUID' : `Strava ID ${conflict.externalId}`}; differs in {conflict.fields.join(', ')})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              <button
+                onClick={() => handleConfirmImport('merge')}
+                className="btn"
+                disabled={importing}
+                style={{ backgroundColor: colors.success, borderColor: colors.success }}
+              >
+                {importing ? 'Importing...' : 'Merge into Current Data'}
+              </button>
+              <button
+                onClick={() => handleConfirmImport('replace')}
+                className="btn"
+                disabled={importing}
+                style={{ backgroundColor: colors.danger, borderColor: colors.danger }}
+              >
+                Replace All Data
+              </button>
+              <button
+                onClick={() => setImportPreview(null)}
+                className="btn btn-secondary"
+                disabled={importing}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
         <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: colors.warningBg, border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
           <p style={{ margin: 0, fontSize: '0.9rem', color: colors.warningText }}>
-            <strong>⚠️ Important:</strong> Import will replace all existing data. {isAuthenticated ? 'Make sure to export your current data first if you want to keep it.' : 'You can import data even when not authenticated.'}
+            <strong>⚠️ Important:</strong> Merge keeps your local activities and adds or updates the ones from the backup. Replace clears all existing data first. {isAuthenticated ? 'Make sure to export your current data first if you want to keep it.' : 'You can import data even when not authenticated.'}
           </p>
         </div>
       </div>
 
-      {/* Data Migration — Legacy Table Cleanup */}
+      {/* Storage & Quota */}
       <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
-        <h3>Data Migration</h3>
-        <div style={{ padding: '1rem', backgroundColor: colors.bgTertiary, border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
-          <p style={{ margin: '0 0 1rem 0', fontSize: '0.9rem', color: colors.textSecondary }}>
-            If you've confirmed all your data is intact after the automatic migration, you can purge
-            the old legacy tables to free up storage space. This cannot be undone.
+        <h3>Storage</h3>
+        {storageQuota?.supported ? (
+          <div style={{ marginBottom: '1rem', padding: '1rem', backgroundColor: colors.bgTertiary, borderRadius: '4px' }}>
+            <div style={{ fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+              <strong>Browser usage:</strong> {formatBytes(storageQuota.usage)} of {formatBytes(storageQuota.quota)}
+              {storageQuota.quota > 0 && ` (${((storageQuota.usage / storageQuota.quota) * 100).toFixed(1)}%)`}
+            </div>
+            <div style={{ height: '8px', backgroundColor: colors.border, borderRadius: '4px', overflow: 'hidden', marginBottom: '1rem' }}>
+              <div style={{
+                height: '100%',
+                width: `${storageQuota.quota > 0 ? Math.min(100, (storageQuota.usage / storageQuota.quota) * 100) : 0}%`,
+                backgroundColor: storageQuota.usage / (storageQuota.quota || 1) > 0.8 ? colors.danger : colors.info,
+              }} />
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+              <div style={{ fontSize: '0.9rem' }}>
+                <strong>Persistent storage:</strong>{' '}
+                {storageQuota.persisted
+                  ? <span style={{ color: colors.success }}>✓ Granted</span>
+                  : <span style={{ color: colors.warningText }}>Not granted — the browser may evict data when space runs low</span>}
+              </div>
+              {!storageQuota.persisted && (
+                <button type="button" onClick={handleRequestPersistence} className="btn btn-secondary">
+                  Request Persistent Storage
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary }}>
+            This browser does not report storage quota.
           </p>
-          <button
-            type="button"
-            onClick={async () => {
-              if (window.confirm('Are you sure you want to purge legacy tables? This will permanently delete old activity data from the previous storage format. Make sure all your data is visible in the app first.')) {
-                try {
-                  await db.deleteLegacyTables();
-                  setMessage({ type: 'success', text: 'Legacy tables purged successfully. Storage space freed.' });
-                  loadDataStats();
-                } catch (error) {
-                  setMessage({
-                    type: 'error',
-                    text: 'Failed to purge legacy tables. Please try again.'
-                  });
-                }
-              }
-            }}
-            className="btn btn-secondary"
-            style={{ backgroundColor: colors.warningText, borderColor: colors.warningText, color: 'white' }}
-          >
-            Purge Legacy Tables
-          </button>
+        )}
+
+        <div style={{ padding: '1rem', border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
+          <h4 style={{ marginBottom: '0.5rem' }}>Prune Old Streams</h4>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Drop raw GPS and sensor streams for old activities. Distance PRs, segment efforts and routes are kept.
+          </p>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            <label htmlFor="pruneYears" style={{ fontSize: '0.9rem' }}>Older than</label>
+            <input
+              type="number"
+              id="pruneYears"
+              min="1"
+              value={pruneYears}
+              onChange={(e) => { setPruneYears(e.target.value); setPrunePreview(null); }}
+              style={{ width: '80px' }}
+            />
+            <span style={{ fontSize: '0.9rem' }}>years</span>
+            <button type="button" onClick={handlePreviewPrune} className="btn btn-secondary">
+              Preview
+            </button>
+          </div>
+          {prunePreview && (
+            <div style={{ fontSize: '0.9rem' }}>
+              {prunePreview.activities === 0 ? (
+                <p style={{ margin: 0, color: colors.textSecondary }}>
+                  No activities with streams before {new Date(prunePreview.cutoffDate).toLocaleDateString()}.
+                </p>
+              ) : (
+                <>
+                  <p style={{ marginBottom: '1rem' }}>
+                    {prunePreview.activities} activities
+                    {prunePreview.oldestDate && prunePreview.newestDate && ` (${new Date(prunePreview.oldestDate).toLocaleDateString()} – ${new Date(prunePreview.newestDate).toLocaleDateString()})`}
+                    {' '}would free about {formatBytes(prunePreview.encodedBytes)}.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handlePruneStreams}
+                    className="btn"
+                    disabled={pruning}
+                    style={{ backgroundColor: colors.warningText, borderColor: colors.warningText, color: 'white' }}
+                  >
+                    {pruning ? 'Pruning...' : `Prune ${prunePreview.activities} Activities`}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Data Integrity */}
+      <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
+        <h3>Data Integrity</h3>
+        <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+          Find efforts, route entries, distance records and streams that point at deleted activities, segments or routes, plus duplicate rows.
+        </p>
+        <button onClick={handleIntegrityCheck} className="btn btn-secondary" disabled={checkingIntegrity}>
+          {checkingIntegrity ? 'Checking...' : '🩺 Run Integrity Check'}
+        </button>
+
+        {integrityReport && (
+          <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: colors.bgTertiary, border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
+            {integrityReport.issues.length === 0 ? (
+              <p style={{ margin: 0, color: colors.success }}>✓ No problems found ({new Date(integrityReport.checkedAt).toLocaleTimeString()})</p>
+            ) : (
+              <>
+                <table style={{ width: '100%', fontSize: '0.85rem', borderCollapse: 'collapse', marginBottom: '1rem' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left' }}>
+                      <th>Table</th>
+                      <th style={{ textAlign: 'right' }}>Orphans</th>
+                      <th style={{ textAlign: 'right' }}>Duplicates</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(integrityReport.byTable).map(([table, counts]) => (
+                      <tr key={table}>
+                        <td>{table}</td>
+                        <td style={{ textAlign: 'right' }}>{counts.orphans}</td>
+                        <td style={{ textAlign: 'right' }}>{counts.duplicates}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <details style={{ marginBottom: '1rem', fontSize: '0.85rem' }}>
+                  <summary style={{ cursor: 'pointer' }}>Show {integrityReport.issues.length} problem(s)</summary>
+                  <ul style={{ maxHeight: '200px', overflowY: 'auto', margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+                    {integrityReport.issues.slice(0, 200).map(issue => (
+                      <li key={`${issue.table}-${issue.rowId}`}>{issue.description}</li>
+                    ))}
+                    {integrityReport.issues.length > 200 && <li>…and {integrityReport.issues.length - 200} more</li>}
+                  </ul>
+                </details>
+                <button onClick={handleIntegrityRepair} className="btn" disabled={checkingIntegrity}>
+                  🔧 Repair All
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Strava Reconciliation */}
+      {isAuthenticated && (
+        <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
+          <h3>Check Against Strava</h3>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Compare stored activities with Strava for a date range to find ones deleted or edited there since they were synced.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            <input type="date" value={reconcileFrom} onChange={(e) => setReconcileFrom(e.target.value)} style={{ padding: '0.5rem' }} />
+            <span>to</span>
+            <input type="date" value={reconcileTo} onChange={(e) => setReconcileTo(e.target.value)} style={{ padding: '0.5rem' }} />
+            <button onClick={handleReconcile} className="btn btn-secondary" disabled={reconciling || !reconcileFrom || !reconcileTo}>
+              {reconciling ? 'Checking...' : '🔍 Compare with Strava'}
+            </button>
+          </div>
+
+          {reconcileReport && (
+            <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: colors.bgTertiary, border: `1px solid ${colors.border}`, borderRadius: '4px', fontSize: '0.9rem' }}>
+              <p style={{ margin: '0 0 0.75rem 0' }}>
+                Checked {reconcileReport.checked} activities from {reconcileReport.from} to {reconcileReport.to}.
+              </p>
+              {reconcileReport.deleted.length === 0 && reconcileReport.changed.length === 0 && (
+                <p style={{ margin: 0, color: colors.success }}>✓ Everything matches Strava</p>
+              )}
+
+              {reconcileReport.deleted.length > 0 && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <strong>Deleted on Strava ({reconcileReport.deleted.length})</strong>
+                  <ul style={{ maxHeight: '200px', overflowY: 'auto', margin: '0.5rem 0', paddingLeft: '1.25rem' }}>
+                    {reconcileReport.deleted.map(a => (
+                      <li key={a.id}>
+                        {a.name} • {new Date(a.start_date_local).toLocaleDateString()}
+                        {a.archivedAt && <span style={{ color: colors.textSecondary }}> (archived)</span>}
+                        {' '}
+                        {!a.archivedAt && (
+                          <button onClick={() => handleRemoteDeleted('archive', [a.id])} type="button" disabled={reconciling} style={{ fontSize: '0.8rem' }}>Archive</button>
+                        )}
+                        {' '}
+                        <button onClick={() => handleRemoteDeleted('remove', [a.id])} type="button" disabled={reconciling} style={{ fontSize: '0.8rem' }}>Remove</button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button
+                      onClick={() => handleRemoteDeleted('archive', reconcileReport.deleted.filter(a => !a.archivedAt).map(a => a.id))}
+                      className="btn btn-secondary"
+                      disabled={reconciling || reconcileReport.deleted.every(a => a.archivedAt)}
+                    >
+                      📦 Archive All
+                    </button>
+                    <button
+                      onClick={() => handleRemoteDeleted('remove', reconcileReport.deleted.map(a => a.id))}
+                      className="btn btn-secondary"
+                      style={{ backgroundColor: colors.danger, borderColor: colors.danger, color: 'white' }}
+                      disabled={reconciling}
+                    >
+                      🗑️ Remove All
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {reconcileReport.changed.length > 0 && (
+                <div>
+                  <strong>Changed on Strava ({reconcileReport.changed.length})</strong>
+                  <ul style={{ maxHeight: '200px', overflowY: 'auto', margin: '0.5rem 0', paddingLeft: '1.25rem' }}>
+                    {reconcileReport.changed.map(c => (
+                      <li key={c.activity.id}>
+                        {c.activity.name} • {c.fields.map(f => (
+                          f === 'name' ? `name → "${c.remote.name}"` : f
+                        )).join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                  <button onClick={handleApplyRemoteChanges} className="btn" disabled={reconciling}>
+                    ⬇️ Update from Strava
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Strava Totals */}
+      {isAuthenticated && (
+        <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
+          <h3>Compare Totals</h3>
+          <p style={{ fontSize: '0.9rem', color: colors.textSecondary, marginBottom: '1rem' }}>
+            Compare Strava's year-to-date and all-time totals with the activities stored here. Strava only counts activities visible to everyone, so private ones are left out.
+          </p>
+          <button onClick={handleCompareTotals} className="btn btn-secondary" disabled={comparingTotals}>
+            {comparingTotals ? 'Comparing...' : '📊 Compare Totals'}
+          </button>
+
+          {totalsReport && (
+            <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: colors.bgTertiary, border: `1px solid ${colors.border}`, borderRadius: '4px', fontSize: '0.9rem' }}>
+              <table style={{ width: '100%', fontSize: '0.85rem', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left' }}>
+                    <th>Period</th>
+                    <th>Sport</th>
+                    <th>Activities (Strava / here)</th>
+                    <th>Distance km (Strava / here)</th>
+                    <th>Moving hours (Strava / here)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {totalsReport.rows.map(row => {
+                    // Strava rounds its totals, so only flag differences beyond that
+                    const gap = row.strava.count !== row.local.count || Math.abs(row.strava.distance - row.local.distance) > 1000;
+                    return (
+                      <tr key={`${row.period}-${row.sport}`} style={gap ? { backgroundColor: colors.warningBg, color: colors.warningText } : undefined}>
+                        <td>{row.period === 'ytd' ? 'This year' : 'All time'}</td>
+                        <td style={{ textTransform: 'capitalize' }}>{row.sport}</td>
+                        <td>{row.strava.count} / {row.local.count}</td>
+                        <td>{(row.strava.distance / 1000).toFixed(1)} / {(row.local.distance / 1000).toFixed(1)}</td>
+                        <td>{(row.strava.moving_time / 3600).toFixed(1)} / {(row.local.moving_time / 3600).toFixed(1)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {totalsReport.rows.every(r => r.strava.count === r.local.count) ? (
+                <p style={{ margin: '0.75rem 0 0 0', color: colors.success }}>✓ Activity counts match Strava</p>
+              ) : (
+                <p style={{ margin: '0.75rem 0 0 0', color: colors.textSecondary }}>
+                  Highlighted rows differ. Run a sync to fetch missing activities, or use Check Against Strava above to find edited or deleted ones.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div style={{ marginTop: '2rem', paddingTop: '2rem', borderTop: `1px solid ${colors.border}` }}>
         <h3 style={{ color: colors.danger }}>Danger Zone</h3>
         <div style={{ padding: '1rem', backgroundColor: colors.errorBg, border: `1px solid ${colors.danger}`, borderRadius: '4px' }}>
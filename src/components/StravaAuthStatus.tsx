@@ -0,0 +1,33 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { stravaService, AuthStatus } from '../services/stravaService';
+
+/** Nav bar warning when Strava needs to be reconnected */
+const StravaAuthStatus: React.FC = () => {
+  const [status, setStatus] = useState<AuthStatus>(stravaService.getAuthStatus());
+
+  useEffect(() => stravaService.subscribeAuth(setStatus), []);
+
+  const style: React.CSSProperties = { fontSize: '0.8rem', marginLeft: '1rem', whiteSpace: 'nowrap', color: 'inherit' };
+
+  if (status.state === 'refreshing') {
+    return <span style={style} title="Refreshing Strava login">🔄 Strava</span>;
+  }
+  if (status.state === 'reauthRequired') {
+    return (
+      <Link to="/settings" style={{ ...style, fontWeight: 600 }} title={status.reason}>
+        ⚠️ Reconnect Strava
+      </Link>
+    );
+  }
+  if (status.state === 'connected' && status.missingScopes.length > 0) {
+    return (
+      <Link to="/settings" style={style} title={`Missing permissions: ${status.missingScopes.join(', ')}`}>
+        ⚠️ Strava permissions
+      </Link>
+    );
+  }
+  return null;
+};
+
+export default StravaAuthStatus;
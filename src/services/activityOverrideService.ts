@@ -0,0 +1,71 @@
+import { db, Activity, ActivityOverride, ActivityOverrideFields, ActivityView } from './database';
+
+const OVERRIDE_FIELDS: (keyof ActivityOverrideFields)[] = ['name', 'type', 'gear_id', 'notes', 'excludeFromStats'];
+
+export class ActivityOverrideService {
+  async getOverride(activityId: string): Promise<ActivityOverride | undefined> {
+    return await db.activityOverrides.get(activityId);
+  }
+
+  async getOverrideMap(): Promise<Map<string, ActivityOverride>> {
+    const overrides = await db.activityOverrides.toArray();
+    return new Map(overrides.map(o => [o.id, o]));
+  }
+
+  /**
+   * Save local edits for an activity. Empty strings and `false` clear a field;
+   * when nothing is left the override row is removed.
+   */
+  async saveOverride(activity: Activity, changes: ActivityOverrideFields): Promise<void> {
+    const existing = await this.getOverride(activity.id);
+    const merged: ActivityOverride = {
+      ...existing,
+      ...changes,
+      id: activity.id,
+      externalId: activity.externalId,
+      updatedAt: Date.now(),
+    };
+
+    for (const field of OVERRIDE_FIELDS) {
+      if (merged[field] === '' || merged[field] === false || merged[field] === undefined) {
+        delete merged[field];
+      }
+    }
+
+    if (OVERRIDE_FIELDS.some(field => merged[field] !== undefined)) {
+      await db.activityOverrides.put(merged);
+    } else {
+      await db.activityOverrides.delete(activity.id);
+    }
+  }
+
+  async clearOverride(activityId: string): Promise<void> {
+    await db.activityOverrides.delete(activityId);
+  }
+
+  applyOverride<T extends Activity>(activity: T, override?: ActivityOverride): ActivityView<T> {
+    if (!override) return activity;
+
+    const overriddenFields = OVERRIDE_FIELDS.filter(field => override[field] !== undefined);
+    return {
+      ...activity,
+      name: override.name ?? activity.name,
+      type: override.type ?? activity.type,
+      gear_id: override.gear_id ?? activity.gear_id,
+      notes: override.notes,
+      excludeFromStats: override.excludeFromStats,
+      overriddenFields,
+    };
+  }
+
+  async withOverride<T extends Activity>(activity: T): Promise<ActivityView<T>> {
+    return this.applyOverride(activity, await this.getOverride(activity.id));
+  }
+
+  async withOverrides<T extends Activity>(activities: T[]): Promise<ActivityView<T>[]> {
+    const overrides = await this.getOverrideMap();
+    return activities.map(a => this.applyOverride(a, overrides.get(a.id)));
+  }
+}
+
+export const activityOverrideService = new ActivityOverrideService();
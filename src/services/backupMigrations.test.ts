@@ -0,0 +1,68 @@
+import { migrateBackup, BACKUP_FORMAT_VERSION, MIN_BACKUP_FORMAT_VERSION } from './backupMigrations';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** What a v4 export looked like: numeric Strava ids and no later tables */
+const v4Backup = () => ({
+  version: 4,
+  timestamp: '2023-01-01T00:00:00Z',
+  settings: [{ id: 1, clientId: '123' }],
+  activities: [
+    { id: 101, name: 'Long Run', distance: 21100, start_date: '2022-12-30T08:00:00Z' },
+    { id: 102, name: 'Easy Ride', distance: 40000, start_date: '2022-12-31T09:00:00Z' },
+  ],
+  activityDetails: [{ id: 101, name: 'Long Run', description: 'Felt good' }],
+  activitySegments: [
+    { id: 1, activityId: 101, distanceKm: 5, pace: 4.5 },
+    // Points at an activity that isn't in the backup
+    { id: 2, activityId: 999, distanceKm: 5, pace: 4.2 },
+  ],
+});
+
+describe('migrateBackup', () => {
+  it('upgrades a v4 backup to the current format', () => {
+    const migrated = migrateBackup(v4Backup());
+
+    expect(migrated.version).toBe(BACKUP_FORMAT_VERSION);
+    expect(migrated.activities).toBeUndefined();
+    expect(migrated.activityDetails).toBeUndefined();
+    expect(migrated.settings).toEqual([{ id: 1, clientId: '123' }]);
+
+    expect(migrated.allActivities).toHaveLength(2);
+    const [run, ride] = migrated.allActivities;
+    expect(run).toMatchObject({ name: 'Long Run', source: 'strava', externalId: 101 });
+    expect(ride).toMatchObject({ name: 'Easy Ride', source: 'strava', externalId: 102 });
+    expect(run.id).toMatch(UUID);
+    expect(ride.id).not.toBe(run.id);
+
+    expect(migrated.allActivityDetails).toEqual([
+      expect.objectContaining({ id: run.id, externalId: 101, description: 'Felt good' }),
+    ]);
+    expect(migrated.activitySegments).toEqual([expect.objectContaining({ id: 1, activityId: run.id })]);
+
+    for (const table of ['segments', 'segmentEfforts', 'routeGroups', 'routeActivities', 'activityOverrides', 'activityTags', 'collections', 'gear']) {
+      expect(migrated[table]).toEqual([]);
+    }
+  });
+
+  it('keeps the rows of a v8 backup that already uses UUIDs', () => {
+    const allActivities = [{ id: 'a1b2c3d4-0000-4000-8000-000000000001', source: 'device', name: 'Track' }];
+    const segments = [{ id: 3, activityId: allActivities[0].id, name: 'Lap' }];
+    const migrated = migrateBackup({ version: 8, timestamp: 't', allActivities, segments });
+
+    expect(migrated.allActivities).toEqual(allActivities);
+    expect(migrated.segments).toEqual(segments);
+    expect(migrated.gear).toEqual([]);
+  });
+
+  it('leaves a current backup alone', () => {
+    const data = { version: BACKUP_FORMAT_VERSION, timestamp: 't', allActivities: [], gear: [{ id: 'g1' }] };
+    expect(migrateBackup(data)).toEqual(data);
+  });
+
+  it('rejects versions it cannot read', () => {
+    expect(() => migrateBackup({ version: BACKUP_FORMAT_VERSION + 1 })).toThrow(/newer version/);
+    expect(() => migrateBackup({ version: MIN_BACKUP_FORMAT_VERSION - 1 })).toThrow(/too old/);
+    expect(() => migrateBackup({ version: 'abc' })).toThrow(/unknown backup version/);
+  });
+});
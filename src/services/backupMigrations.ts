@@ -0,0 +1,159 @@
+import { Activity, ActivityDetail, StravaActivity } from './database';
+
+/**
+ * Current backup file format. Mirrors the Dexie schema version the export
+ * was taken from, so bump it together with `AthleteInsightDB.version(n)`.
+ */
+export const BACKUP_FORMAT_VERSION = 19;
+
+/** Oldest backup format we still know how to upgrade. */
+export const MIN_BACKUP_FORMAT_VERSION = 4;
+
+type BackupMigration = (data: any) => any;
+
+/** An activityDetails row from before v8, keyed by the Strava id */
+type LegacyActivityDetail = Omit<ActivityDetail, 'id' | 'source' | 'externalId'> & { id: number };
+
+/**
+ * Step-by-step upgrades for exported backups, keyed by the version they
+ * upgrade FROM. Each step returns data in the next version's shape.
+ */
+const migrations: Record<number, BackupMigration> = {
+  // v5 - activity segments for time-based personal records
+  4: data => ({
+    ...data,
+    activitySegments: data.activitySegments || []
+  }),
+
+  // v6 - custom segments and segment efforts
+  5: data => ({
+    ...data,
+    segments: data.segments || [],
+    segmentEfforts: data.segmentEfforts || []
+  }),
+
+  // v7 - route groups
+  6: data => ({
+    ...data,
+    routeGroups: data.routeGroups || [],
+    routeActivities: data.routeActivities || []
+  }),
+
+  // v8 - unified activities table with UUID keys (same as the Dexie upgrade)
+  7: data => {
+    const { activities, activityDetails, ...rest } = data;
+    const idMap = new Map<number, string>();
+
+    const allActivities: Activity[] = [...(rest.allActivities || [])];
+    for (const act of (activities || []) as StravaActivity[]) {
+      const uuid = crypto.randomUUID();
+      idMap.set(act.id, uuid);
+      allActivities.push({ ...act, id: uuid, source: 'strava', externalId: act.id });
+    }
+
+    const allActivityDetails: ActivityDetail[] = [...(rest.allActivityDetails || [])];
+    for (const det of (activityDetails || []) as LegacyActivityDetail[]) {
+      const uuid = idMap.get(det.id);
+      if (uuid) {
+        allActivityDetails.push({ ...det, id: uuid, source: 'strava', externalId: det.id });
+      }
+    }
+
+    const remap = <T extends { activityId: number | string }>(rows: T[] | undefined): T[] =>
+      (rows || [])
+        .filter(row => typeof row.activityId !== 'number' || idMap.has(row.activityId))
+        .map(row => typeof row.activityId === 'number'
+          ? { ...row, activityId: idMap.get(row.activityId)! }
+          : row);
+
+    return {
+      ...rest,
+      allActivities,
+      allActivityDetails,
+      activitySegments: remap(rest.activitySegments),
+      segments: remap(rest.segments),
+      segmentEfforts: remap(rest.segmentEfforts),
+      routeGroups: remap(rest.routeGroups),
+      routeActivities: remap(rest.routeActivities)
+    };
+  },
+
+  // v9 - streams stored in binary form locally; backups keep them inline
+  8: data => data,
+
+  // v10 - user overrides layer
+  9: data => ({
+    ...data,
+    activityOverrides: data.activityOverrides || []
+  }),
+
+  // v11 - activity tags and saved collections
+  10: data => ({
+    ...data,
+    activityTags: data.activityTags || [],
+    collections: data.collections || []
+  }),
+
+  // v12 - gear with retirement thresholds
+  11: data => ({
+    ...data,
+    gear: data.gear || []
+  }),
+
+  // v13 - legacy activities/activityDetails tables dropped; exports stopped
+  // carrying them at v8, so the data is already in shape
+  12: data => data,
+
+  // v14 - sync cursor table, which stays out of backups
+  13: data => data,
+
+  // v15 - background job queue, also left out of backups
+  14: data => data,
+
+  // v16 - original device files, kept out of backups
+  15: data => data,
+
+  // v17 - pending Strava edits, kept out of backups
+  16: data => data,
+
+  // v18 - cached activity photos, kept out of backups
+  17: data => data,
+
+  // v19 - compound indexes on efforts and route activities; rows unchanged
+  18: data => data
+};
+
+/**
+ * Upgrade a parsed backup to BACKUP_FORMAT_VERSION.
+ * Throws for files written by a newer app or older than we can read.
+ */
+export function migrateBackup(data: any): any {
+  const version = Number(data.version);
+
+  if (!Number.isInteger(version)) {
+    throw new Error(`Invalid data format - unknown backup version "${data.version}"`);
+  }
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`This backup was created by a newer version of Athlete Insight (format v${version}). This app supports up to v${BACKUP_FORMAT_VERSION} - please update the app and try again.`);
+  }
+  if (version < MIN_BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format v${version} is too old to import (oldest supported is v${MIN_BACKUP_FORMAT_VERSION}).`);
+  }
+
+  let migrated = data;
+  for (let v = version; v < BACKUP_FORMAT_VERSION; v++) {
+    migrated = { ...migrations[v](migrated), version: v + 1 };
+  }
+
+  // Early v8 exports could still carry only the legacy arrays
+  if (!migrated.allActivities?.length && migrated.activities?.length) {
+    migrated = { ...migrations[7](migrated), version: BACKUP_FORMAT_VERSION };
+  }
+
+  // Legacy arrays have no table to go into any more
+  const { activities, activityDetails, ...rest } = migrated;
+  if (activities?.length || activityDetails?.length) {
+    console.warn('Ignoring legacy activities/activityDetails arrays in a current-format backup');
+  }
+  return rest;
+}
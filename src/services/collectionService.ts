@@ -0,0 +1,147 @@
+import { db, Activity, ActivityCollection } from './database';
+
+export type CollectionCriteria = Pick<ActivityCollection, 'tags' | 'type' | 'dateFrom' | 'dateTo'>;
+
+export class CollectionService {
+  // ============ TAGS ============
+
+  normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  async getTagsForActivity(activityId: string): Promise<string[]> {
+    const rows = await db.activityTags.where('activityId').equals(activityId).toArray();
+    return rows.map(r => r.tag).sort();
+  }
+
+  /** activityId -> tags, for filtering whole lists at once */
+  async getTagMap(): Promise<Map<string, string[]>> {
+    const map = new Map<string, string[]>();
+    await db.activityTags.each(row => {
+      const tags = map.get(row.activityId) || [];
+      tags.push(row.tag);
+      map.set(row.activityId, tags);
+    });
+    return map;
+  }
+
+  /** All tags in use with their activity counts, most used first */
+  async getAllTags(): Promise<{ tag: string; count: number }[]> {
+    const counts = new Map<string, number>();
+    await db.activityTags.each(row => {
+      counts.set(row.tag, (counts.get(row.tag) || 0) + 1);
+    });
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async addTag(activityId: string, tag: string): Promise<void> {
+    const normalized = this.normalizeTag(tag);
+    if (!normalized) return;
+    const exists = await db.activityTags
+      .where('activityId')
+      .equals(activityId)
+      .filter(r => r.tag === normalized)
+      .count() > 0;
+    if (!exists) {
+      await db.activityTags.add({ activityId, tag: normalized, createdAt: Date.now() });
+    }
+  }
+
+  async removeTag(activityId: string, tag: string): Promise<void> {
+    await db.activityTags
+      .where('activityId')
+      .equals(activityId)
+      .filter(r => r.tag === tag)
+      .delete();
+  }
+
+  // ============ COLLECTIONS ============
+
+  async getCollections(): Promise<ActivityCollection[]> {
+    return await db.collections.orderBy('name').toArray();
+  }
+
+  async getCollection(id: number): Promise<ActivityCollection | undefined> {
+    return await db.collections.get(id);
+  }
+
+  async createCollection(name: string, criteria: Partial<CollectionCriteria> = {}, activityIds: string[] = []): Promise<number> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Collection name is required');
+    }
+    if (await db.collections.where('name').equals(trimmed).count() > 0) {
+      throw new Error(`A collection named "${trimmed}" already exists`);
+    }
+    const now = Date.now();
+    return await db.collections.add({
+      name: trimmed,
+      activityIds,
+      tags: (criteria.tags || []).map(t => this.normalizeTag(t)).filter(Boolean),
+      type: criteria.type || undefined,
+      dateFrom: criteria.dateFrom || undefined,
+      dateTo: criteria.dateTo || undefined,
+      createdAt: now,
+      updatedAt: now,
+    }) as number;
+  }
+
+  async updateCollection(id: number, changes: Partial<Omit<ActivityCollection, 'id' | 'createdAt'>>): Promise<void> {
+    await db.collections.update(id, { ...changes, updatedAt: Date.now() });
+  }
+
+  async deleteCollection(id: number): Promise<void> {
+    await db.collections.delete(id);
+  }
+
+  async addToCollection(id: number, activityId: string): Promise<void> {
+    const collection = await db.collections.get(id);
+    if (!collection || collection.activityIds.includes(activityId)) return;
+    await this.updateCollection(id, { activityIds: [...collection.activityIds, activityId] });
+  }
+
+  async removeFromCollection(id: number, activityId: string): Promise<void> {
+    const collection = await db.collections.get(id);
+    if (!collection) return;
+    await this.updateCollection(id, { activityIds: collection.activityIds.filter(a => a !== activityId) });
+  }
+
+  private hasCriteria(collection: ActivityCollection): boolean {
+    return collection.tags.length > 0 || !!collection.type || !!collection.dateFrom || !!collection.dateTo;
+  }
+
+  matchesCollection(collection: ActivityCollection, activity: Activity, tags: string[] = []): boolean {
+    if (collection.activityIds.includes(activity.id)) return true;
+    if (!this.hasCriteria(collection)) return false;
+
+    if (collection.tags.length > 0 && !collection.tags.some(t => tags.includes(t))) return false;
+    if (collection.type && activity.type.toLowerCase() !== collection.type.toLowerCase()) return false;
+
+    const date = new Date(activity.start_date_local);
+    if (collection.dateFrom && date < new Date(collection.dateFrom)) return false;
+    if (collection.dateTo) {
+      const to = new Date(collection.dateTo);
+      to.setHours(23, 59, 59, 999);
+      if (date > to) return false;
+    }
+    return true;
+  }
+
+  /** Keep only the activities that belong to the collection */
+  async filterByCollection<T extends Activity>(activities: T[], collectionId: number): Promise<T[]> {
+    const collection = await db.collections.get(collectionId);
+    if (!collection) return activities;
+    const tagMap = await this.getTagMap();
+    return activities.filter(a => this.matchesCollection(collection, a, tagMap.get(a.id)));
+  }
+
+  /** Ids of every local activity in the collection */
+  async getCollectionActivityIds(collectionId: number): Promise<Set<string>> {
+    const activities = await this.filterByCollection(await db.allActivities.toArray(), collectionId);
+    return new Set(activities.map(a => a.id));
+  }
+}
+
+export const collectionService = new CollectionService();
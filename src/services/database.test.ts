@@ -0,0 +1,138 @@
+import { db, Activity, Segment, SegmentEffort, RouteGroup, RouteActivity } from './database';
+import { BACKUP_FORMAT_VERSION } from './backupMigrations';
+
+const activity = (id: string, externalId: number, name = 'Morning Run'): Activity => ({
+  id,
+  source: 'strava',
+  externalId,
+  name,
+  distance: 5000,
+  moving_time: 1500,
+  elapsed_time: 1550,
+  total_elevation_gain: 20,
+  type: 'Run',
+  start_date: '2024-05-01T06:00:00Z',
+  start_date_local: '2024-05-01T08:00:00Z',
+  average_speed: 3.33,
+  max_speed: 4.1,
+  has_heartrate: false,
+  kudos_count: 0,
+  comment_count: 0,
+  athlete_count: 1,
+  photo_count: 0,
+});
+
+const segment = (id: number, activityId: string, startIndex: number): Segment => ({
+  id,
+  name: `Segment ${id}`,
+  activityId,
+  startIndex,
+  endIndex: startIndex + 50,
+  distanceKm: 1,
+  elevationGain: 5,
+  polyline: [[40, -105], [40.01, -105]],
+  createdBy: 'custom-points',
+  createdAt: 1,
+});
+
+const effort = (segmentId: number, activityId: string): SegmentEffort => ({
+  segmentId,
+  activityId,
+  timeSecs: 300,
+  avgPace: 5,
+  avgSpeed: 3.33,
+  direction: 'forward',
+  matchedAt: 1,
+});
+
+const route = (id: number, activityId: string, fingerprint: string): RouteGroup => ({
+  id,
+  name: `Route ${id}`,
+  fingerprint,
+  activityId,
+  createdAt: 1,
+});
+
+const routeActivity = (routeId: number, activityId: string): RouteActivity => ({
+  routeId,
+  activityId,
+  timeSecs: 1500,
+  avgSpeed: 3.33,
+  avgPace: 5,
+  elevationGain: 20,
+  assignedAt: 1,
+});
+
+const LOCAL_ID = '11111111-1111-4111-8111-111111111111';
+const INCOMING_ID = '22222222-2222-4222-8222-222222222222';
+
+/** A backup from another device: the same Strava activity under another UUID */
+const backup = () => JSON.stringify({
+  version: BACKUP_FORMAT_VERSION,
+  timestamp: '2024-06-01T00:00:00Z',
+  allActivities: [activity(INCOMING_ID, 1001, 'Renamed Run')],
+  segments: [segment(1, INCOMING_ID, 100)],
+  segmentEfforts: [effort(1, INCOMING_ID), effort(99, INCOMING_ID)],
+  routeGroups: [route(7, INCOMING_ID, 'abc')],
+  routeActivities: [routeActivity(7, INCOMING_ID), routeActivity(42, INCOMING_ID)],
+});
+
+describe('merge import', () => {
+  beforeEach(async () => {
+    await db.clearAllData();
+    await db.allActivities.add(activity(LOCAL_ID, 1001));
+    // Same id as the incoming segment, which has to move
+    await db.segments.add(segment(1, LOCAL_ID, 0));
+  });
+
+  it('plans activity matches, id clashes and orphans without writing', async () => {
+    const report = await db.previewImport(backup());
+
+    expect(report.activities).toEqual({ added: 0, updated: 1, unchanged: 0 });
+    expect(report.conflicts).toEqual([
+      expect.objectContaining({ incomingId: INCOMING_ID, localId: LOCAL_ID, matchedBy: 'externalId', fields: ['name'] }),
+    ]);
+    expect(report.segments).toEqual({ added: 1, duplicates: 0 });
+    expect(report.segmentEfforts).toEqual({ added: 1, duplicates: 0, orphaned: 1 });
+    expect(report.routeGroups).toEqual({ added: 1, duplicates: 0 });
+    expect(report.routeActivities).toEqual({ added: 1, duplicates: 0, orphaned: 1 });
+    expect(await db.segments.count()).toBe(1);
+    expect(await db.segmentEfforts.count()).toBe(0);
+  });
+
+  it('remaps activity, segment and route ids and drops orphans', async () => {
+    await db.importData(backup(), 'merge');
+
+    const activities = await db.allActivities.toArray();
+    expect(activities).toHaveLength(1);
+    expect(activities[0]).toMatchObject({ id: LOCAL_ID, name: 'Renamed Run' });
+
+    const moved = await db.segments.where('activityId').equals(LOCAL_ID).filter(s => s.startIndex === 100).first();
+    expect(moved?.id).not.toBe(1);
+    expect(await db.segments.get(1)).toMatchObject({ startIndex: 0 });
+
+    const efforts = await db.segmentEfforts.toArray();
+    expect(efforts.map(e => [e.segmentId, e.activityId])).toEqual([[moved?.id, LOCAL_ID]]);
+
+    const routes = await db.routeGroups.toArray();
+    expect(routes).toHaveLength(1);
+    const routeActivities = await db.routeActivities.toArray();
+    expect(routeActivities.map(ra => [ra.routeId, ra.activityId])).toEqual([[routes[0].id, LOCAL_ID]]);
+  });
+
+  it('reports everything as existing when the same backup is merged again', async () => {
+    await db.importData(backup(), 'merge');
+    const report = await db.previewImport(backup());
+
+    expect(report.activities).toEqual({ added: 0, updated: 0, unchanged: 1 });
+    expect(report.segments).toEqual({ added: 0, duplicates: 1 });
+    expect(report.segmentEfforts).toEqual({ added: 0, duplicates: 1, orphaned: 1 });
+    expect(report.routeGroups).toEqual({ added: 0, duplicates: 1 });
+    expect(report.routeActivities).toEqual({ added: 0, duplicates: 1, orphaned: 1 });
+
+    await db.importData(backup(), 'merge');
+    expect(await db.segments.count()).toBe(2);
+    expect(await db.segmentEfforts.count()).toBe(1);
+    expect(await db.routeActivities.count()).toBe(1);
+  });
+});
@@ -1,15 +1,24 @@
 import Dexie, { Table } from 'dexie';
+import { BACKUP_FORMAT_VERSION, migrateBackup } from './backupMigrations';
+import { ActivityStreamsRecord, encodeStreams, decodeStreams } from './streamCodec';
+import { profileService } from './profileService';
 
 export interface Activity extends Omit<StravaActivity, 'id'> {
   id: string;
   source: 'strava' | 'device';
   externalId?: number;
+  // Set by reconciliation when the activity is gone from Strava
+  remoteDeletedAt?: number;
+  // Kept locally on purpose after being deleted from Strava
+  archivedAt?: number;
+  // start_date_local is UTC or a guess (archive, GPX and TCX imports); the next sync or reconcile fills it in
+  localTimeMissing?: boolean;
 }
 
 export interface ActivityDetail extends Activity {
   description?: string;
   calories?: number;
-  segment_efforts?: any[];
+  segment_efforts?: StravaSegmentEffort[];
   splits_metric?: any[];
   splits_standard?: any[];
   laps?: any[];
@@ -21,17 +30,90 @@ export interface ActivityDetail extends Activity {
   embed_token?: string;
   similar_activities?: any;
   available_zones?: any[];
+  // From /activities/{id}/zones; [] once fetched when Strava has none
+  zones?: StravaActivityZone[];
+  // When the photo list was last fetched into activityPhotos
+  photosFetchedAt?: number;
   streams?: StreamData;
+  // Set when raw streams were dropped by storage pruning; derived data is kept
+  streamsPrunedAt?: number;
+}
+
+/**
+ * Local edits to an activity, kept apart from the synced data so a Strava
+ * refresh or re-sync never overwrites them. Keyed by activity UUID.
+ */
+export interface ActivityOverride {
+  id: string;
+  externalId?: number;
+  name?: string;
+  type?: string;
+  gear_id?: string;
+  notes?: string;
+  excludeFromStats?: boolean;
+  updatedAt: number;
+}
+
+export type ActivityOverrideFields = Omit<ActivityOverride, 'id' | 'externalId' | 'updatedAt'>;
+
+/** An activity as the UI sees it, with any local overrides applied */
+export type ActivityView<T extends Activity = Activity> = T & {
+  notes?: string;
+  excludeFromStats?: boolean;
+  overriddenFields?: (keyof ActivityOverrideFields)[];
+};
+
+/** A free-form tag on an activity. One row per (activity, tag) pair. */
+export interface ActivityTag {
+  id?: number;
+  activityId: string; // UUID
+  tag: string;
+  createdAt: number;
+}
+
+/**
+ * A saved collection of activities. Activities belong to it when they were
+ * added by hand, or when they match every criterion that is set.
+ */
+export interface ActivityCollection {
+  id?: number;
+  name: string;
+  activityIds: string[];
+  tags: string[]; // matches activities carrying any of these tags
+  type?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A shoe or bike with its local settings. Strava gear keeps its Strava id
+ * (e.g. "g12345"); gear added in the app gets a "local-" prefixed id.
+ */
+export interface GearItem {
+  id: string;
+  name: string;
+  kind: 'shoe' | 'bike';
+  source: 'strava' | 'local';
+  retirementKm?: number;
+  retired?: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface StravaSettings {
   id?: number;
   clientId: string;
-  clientSecret: string;
+  // Left empty when tokens are exchanged through tokenProxyUrl
+  clientSecret?: string;
+  tokenProxyUrl?: string;
   accessToken?: string;
   refreshToken?: string;
   expiresAt?: number;
   scope?: string;
+  // Set when the tokens stopped working and the user has to reconnect
+  authError?: string;
   autoFetchStrava?: boolean;
 }
 
@@ -68,6 +150,59 @@ export interface StravaAthlete {
   birth_year?: number;
   // Custom field for LLM summary prefix
   llm_summary_prefix?: string;
+  // Cached /athletes/{id}/stats
+  stats?: StravaAthleteStats;
+  statsFetchedAt?: number;
+}
+
+export interface StravaZoneBucket {
+  min: number;
+  max: number; // -1 for the open-ended top bucket
+  time: number; // seconds
+}
+
+/** The parts of a Strava segment effort (from the activity detail) that get used */
+export interface StravaSegmentEffort {
+  id: number;
+  name: string;
+  elapsed_time: number;
+  distance: number;
+  // Indices into the activity's streams
+  start_index: number;
+  end_index: number;
+  pr_rank?: number | null;
+  segment?: { id: number; name: string };
+}
+
+export interface StravaActivityZone {
+  type: 'heartrate' | 'power';
+  sensor_based?: boolean;
+  custom_zones?: boolean;
+  max?: number;
+  score?: number;
+  distribution_buckets: StravaZoneBucket[];
+}
+
+export interface StravaActivityTotal {
+  count: number;
+  distance: number;
+  moving_time: number;
+  elapsed_time: number;
+  elevation_gain: number;
+}
+
+export interface StravaAthleteStats {
+  biggest_ride_distance?: number;
+  biggest_climb_elevation_gain?: number;
+  recent_run_totals: StravaActivityTotal;
+  recent_ride_totals: StravaActivityTotal;
+  recent_swim_totals: StravaActivityTotal;
+  ytd_run_totals: StravaActivityTotal;
+  ytd_ride_totals: StravaActivityTotal;
+  ytd_swim_totals: StravaActivityTotal;
+  all_run_totals: StravaActivityTotal;
+  all_ride_totals: StravaActivityTotal;
+  all_swim_totals: StravaActivityTotal;
 }
 
 export interface StravaActivity {
@@ -80,6 +215,8 @@ export interface StravaActivity {
   type: string;
   start_date: string;
   start_date_local: string;
+  // Seconds east of UTC at the start
+  utc_offset?: number;
   average_speed: number;
   max_speed: number;
   average_heartrate?: number;
@@ -154,7 +291,8 @@ export interface Segment {
   distanceKm: number;
   elevationGain: number;
   polyline: [number, number][];
-  createdBy: 'full-route' | 'custom-points';
+  createdBy: 'full-route' | 'custom-points' | 'strava-effort';
+  stravaSegmentId?: number; // set when created from a Strava segment effort
   createdAt: number;
 }
 
@@ -195,10 +333,168 @@ export interface RouteActivity {
   assignedAt: number;
 }
 
+export type ImportMode = 'replace' | 'merge';
+
+export interface ExportOptions {
+  // Off by default so backups can be shared without the Strava app secret
+  includeClientSecret?: boolean;
+}
+
+export interface ImportConflict {
+  incomingId: string;
+  localId: string;
+  externalId?: number;
+  matchedBy: 'id' | 'externalId';
+  localName: string;
+  incomingName: string;
+  fields: string[];
+}
+
+export interface ImportCounts {
+  added: number;
+  duplicates: number;
+}
+
+/** Counts for rows that belong to a segment or route in the same backup */
+export interface ChildImportCounts extends ImportCounts {
+  // Skipped because their segment or route isn't in the backup
+  orphaned: number;
+}
+
+export interface ImportConflictReport {
+  version: number;
+  migratedFrom?: number;
+  timestamp: string;
+  profile?: string;
+  activities: { added: number; updated: number; unchanged: number };
+  conflicts: ImportConflict[];
+  segments: ImportCounts;
+  segmentEfforts: ChildImportCounts;
+  routeGroups: ImportCounts;
+  routeActivities: ChildImportCounts;
+  activitySegments: ImportCounts;
+  activityOverrides: ImportCounts;
+  activityTags: ImportCounts;
+  collections: ImportCounts;
+  gear: ImportCounts;
+}
+
+interface MergePlan {
+  report: ImportConflictReport;
+  // incoming activity id -> local activity id it will be stored under
+  activityIdMap: Map<string, string>;
+  // incoming segment/route id -> existing local id (duplicates only)
+  existingSegmentIds: Map<number, number>;
+  existingRouteIds: Map<number, number>;
+}
+
+export interface TableSizeEstimate {
+  table: string;
+  rows: number;
+  estimatedBytes: number;
+}
+
+const SIZE_SAMPLE_ROWS = 25;
+
+/**
+ * Where the incremental Strava sync got to. Start dates are epoch seconds,
+ * matching Strava's `after`/`before` params. Local to this device and not
+ * part of backups.
+ */
+export interface SyncState {
+  id: string; // 'strava'
+  newestStartDate?: number; // newest activity pulled so far
+  backfillBefore?: number; // oldest activity reached by the history backfill
+  backfillComplete: boolean;
+  lastSyncAt?: number;
+}
+
+/**
+ * The original file of a device import, kept so it can be uploaded to
+ * Strava later. Keyed by activity UUID; not part of backups.
+ */
+export interface DeviceFile {
+  id: string;
+  fileName: string;
+  data: ArrayBuffer;
+  size: number;
+  createdAt: number;
+  uploadId?: number;
+  uploadStatus?: 'processing' | 'done' | 'error';
+  uploadError?: string;
+  uploadedAt?: number;
+}
+
+/**
+ * A Strava activity photo with its image kept for offline viewing. Keyed by
+ * Strava's unique_id; not part of backups.
+ */
+export interface ActivityPhoto {
+  id: string;
+  activityId: string;
+  url: string;
+  caption?: string;
+  location?: [number, number];
+  createdAt?: string;
+  isPrimary: boolean;
+  blob?: Blob; // missing if the image couldn't be downloaded
+  size?: number;
+  fetchedAt: number;
+}
+
+/** Activity fields that can be changed on Strava */
+export interface StravaActivityEdit {
+  name?: string;
+  description?: string;
+  type?: string;
+  gear_id?: string;
+  commute?: boolean;
+  trainer?: boolean;
+}
+
+/**
+ * A Strava edit that couldn't be sent yet (e.g. made offline). Keyed by
+ * activity UUID, so later edits are merged in; not part of backups.
+ */
+export interface PendingStravaEdit {
+  id: string;
+  externalId: number;
+  changes: StravaActivityEdit;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+}
+
+export type JobKind = 'fetchStreams' | 'recalculateRecords' | 'rescanSegments' | 'uploadToStrava';
+export type JobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'done';
+
+/** A bulk operation run in the background, one activity at a time */
+export interface Job {
+  id?: number;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  total: number;
+  completed: number; // items finished, including failures
+  failed: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobItem {
+  id?: number;
+  jobId: number;
+  activityId: string;
+  status: 'pending' | 'done' | 'failed' | 'skipped';
+  error?: string;
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CONFLICT_FIELDS: (keyof Activity)[] = ['name', 'type', 'distance', 'moving_time', 'elapsed_time', 'start_date', 'total_elevation_gain'];
+
 export class AthleteInsightDB extends Dexie {
   settings!: Table<StravaSettings>;
-  activities!: Table<StravaActivity>;
-  activityDetails!: Table<ActivityDetail>;
   athlete!: Table<StravaAthlete>;
   activitySegments!: Table<ActivitySegment>;
   segments!: Table<Segment>;
@@ -207,9 +503,20 @@ export class AthleteInsightDB extends Dexie {
   routeActivities!: Table<RouteActivity>;
   allActivities!: Table<Activity>;
   allActivityDetails!: Table<ActivityDetail>;
+  activityStreams!: Table<ActivityStreamsRecord, string>;
+  activityOverrides!: Table<ActivityOverride, string>;
+  activityTags!: Table<ActivityTag>;
+  collections!: Table<ActivityCollection>;
+  gear!: Table<GearItem, string>;
+  syncState!: Table<SyncState, string>;
+  jobs!: Table<Job>;
+  jobItems!: Table<JobItem>;
+  deviceFiles!: Table<DeviceFile, string>;
+  pendingStravaEdits!: Table<PendingStravaEdit, string>;
+  activityPhotos!: Table<ActivityPhoto, string>;
 
-  constructor() {
-    super('AthleteInsightDB');
+  constructor(name: string = profileService.getDatabaseName()) {
+    super(name);
     
     // Version 4 - Fresh start with correct schema
     this.version(4).stores({
@@ -407,17 +714,443 @@ export class AthleteInsightDB extends Dexie {
         }
       }
     });
+
+    // Version 9 - Streams move to their own table in compact binary form
+    this.version(9).stores({
+      settings: '++id, clientId, clientSecret',
+      activities: 'id, name, start_date_local, type',
+      activityDetails: 'id, name, start_date_local, type',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    }).upgrade(async tx => {
+      // One row at a time - loading every stream at once is what this version avoids
+      const ids = await tx.table('allActivityDetails').toCollection().primaryKeys();
+      for (const id of ids) {
+        const det: ActivityDetail | undefined = await tx.table('allActivityDetails').get(id);
+        if (!det?.streams) continue;
+        const { streams, ...rest } = det;
+        if (Object.keys(streams).length > 0) {
+          await tx.table('activityStreams').put(encodeStreams(det.id, streams));
+        }
+        await tx.table('allActivityDetails').put(rest);
+      }
+    });
+
+    // Version 10 - User overrides layer that survives re-sync
+    this.version(10).stores({
+      settings: '++id, clientId, clientSecret',
+      activities: 'id, name, start_date_local, type',
+      activityDetails: 'id, name, start_date_local, type',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 11 - Activity tags and saved collections
+    this.version(11).stores({
+      settings: '++id, clientId, clientSecret',
+      activities: 'id, name, start_date_local, type',
+      activityDetails: 'id, name, start_date_local, type',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 12 - Gear with retirement thresholds
+    this.version(12).stores({
+      settings: '++id, clientId, clientSecret',
+      activities: 'id, name, start_date_local, type',
+      activityDetails: 'id, name, start_date_local, type',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 13 - Finish moving legacy rows to UUID keys, then drop the legacy tables
+    this.version(13).stores({
+      settings: '++id, clientId, clientSecret',
+      activities: null,
+      activityDetails: null,
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    }).upgrade(async tx => {
+      const allActivities = tx.table('allActivities');
+      const allActivityDetails = tx.table('allActivityDetails');
+      const activityStreams = tx.table('activityStreams');
+      // old key (numeric Strava id, as a string) -> UUID
+      const idMap = new Map<string, string>();
+
+      // Unified rows that were written with a numeric id before the UUID fix
+      const unifiedIds = await allActivities.toCollection().primaryKeys();
+      for (const oldId of unifiedIds) {
+        if (UUID_PATTERN.test(String(oldId))) continue;
+        const uuid = crypto.randomUUID();
+        idMap.set(String(oldId), uuid);
+        const act: Activity = await allActivities.get(oldId);
+        await allActivities.delete(oldId);
+        await allActivities.put({ ...act, id: uuid, externalId: act.externalId ?? Number(oldId) });
+        const det: ActivityDetail | undefined = await allActivityDetails.get(oldId);
+        if (det) {
+          await allActivityDetails.delete(oldId);
+          await allActivityDetails.put({ ...det, id: uuid });
+        }
+        const record: ActivityStreamsRecord | undefined = await activityStreams.get(oldId);
+        if (record) {
+          await activityStreams.delete(oldId);
+          await activityStreams.put({ ...record, id: uuid });
+        }
+      }
+
+      const uuidForStravaId = async (stravaId: number): Promise<string | undefined> =>
+        idMap.get(String(stravaId)) || (await allActivities.where('externalId').equals(stravaId).first())?.id;
+
+      // Legacy summaries that never made it into the unified table
+      const legacyActivities: StravaActivity[] = await tx.table('activities').toArray();
+      for (const act of legacyActivities) {
+        let uuid = await uuidForStravaId(act.id);
+        if (!uuid) {
+          uuid = crypto.randomUUID();
+          await allActivities.put({ ...act, id: uuid, source: 'strava', externalId: act.id });
+        }
+        idMap.set(String(act.id), uuid);
+      }
+
+      // Legacy details, one at a time since they may carry inline streams
+      const legacyDetailIds = await tx.table('activityDetails').toCollection().primaryKeys();
+      for (const legacyId of legacyDetailIds) {
+        const det: any = await tx.table('activityDetails').get(legacyId);
+        const stravaId = Number(legacyId);
+        let uuid = await uuidForStravaId(stravaId);
+        const { id: _legacyId, streams, ...rest } = det;
+        if (!uuid) {
+          uuid = crypto.randomUUID();
+          await allActivities.put({ ...rest, id: uuid, source: 'strava', externalId: stravaId });
+        }
+        idMap.set(String(stravaId), uuid);
+
+        if (!await allActivityDetails.get(uuid)) {
+          await allActivityDetails.put({ ...rest, id: uuid, source: 'strava', externalId: stravaId });
+        }
+        if (streams && Object.keys(streams).length > 0 && !await activityStreams.get(uuid)) {
+          await activityStreams.put(encodeStreams(uuid, streams));
+        }
+      }
+
+      if (idMap.size === 0) return;
+
+      // Point everything that still references an old key at the UUID
+      for (const name of ['activitySegments', 'segments', 'segmentEfforts', 'routeGroups', 'routeActivities', 'activityTags']) {
+        await tx.table(name).toCollection().modify((row: { activityId: string }) => {
+          const uuid = idMap.get(String(row.activityId));
+          if (uuid) row.activityId = uuid;
+        });
+      }
+      await tx.table('collections').toCollection().modify((row: ActivityCollection) => {
+        row.activityIds = row.activityIds.map(id => idMap.get(String(id)) || id);
+      });
+      const overrideIds = await tx.table('activityOverrides').toCollection().primaryKeys();
+      for (const oldId of overrideIds) {
+        const uuid = idMap.get(String(oldId));
+        if (!uuid) continue;
+        const override: ActivityOverride = await tx.table('activityOverrides').get(oldId);
+        await tx.table('activityOverrides').delete(oldId);
+        await tx.table('activityOverrides').put({ ...override, id: uuid });
+      }
+    });
+
+    // Version 14 - Incremental sync cursor
+    this.version(14).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 15 - Background job queue
+    this.version(15).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      jobs: '++id, status, createdAt',
+      jobItems: '++id, jobId, [jobId+status]',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 16 - Original device files for uploading to Strava
+    this.version(16).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      jobs: '++id, status, createdAt',
+      jobItems: '++id, jobId, [jobId+status]',
+      deviceFiles: 'id',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 17 - Strava edits waiting to be sent
+    this.version(17).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      jobs: '++id, status, createdAt',
+      jobItems: '++id, jobId, [jobId+status]',
+      deviceFiles: 'id',
+      pendingStravaEdits: 'id',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 18 - Cached Strava activity photos
+    this.version(18).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      jobs: '++id, status, createdAt',
+      jobItems: '++id, jobId, [jobId+status]',
+      deviceFiles: 'id',
+      pendingStravaEdits: 'id',
+      activityPhotos: 'id, activityId',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId'
+    });
+
+    // Version 19 - Compound indexes for effort and route activity lookups
+    this.version(19).stores({
+      settings: '++id, clientId, clientSecret',
+      athlete: 'id, firstname, lastname',
+      allActivities: 'id, source, externalId, name, start_date_local, type',
+      allActivityDetails: 'id, source, externalId, name, start_date_local, type',
+      activityStreams: 'id',
+      activityOverrides: 'id, externalId',
+      activityTags: '++id, activityId, tag',
+      collections: '++id, name',
+      gear: 'id, kind',
+      syncState: 'id',
+      jobs: '++id, status, createdAt',
+      jobItems: '++id, jobId, [jobId+status]',
+      deviceFiles: 'id',
+      pendingStravaEdits: 'id',
+      activityPhotos: 'id, activityId',
+      activitySegments: '++id, activityId, distanceKm, pace',
+      segments: '++id, name, activityId, createdAt',
+      segmentEfforts: '++id, segmentId, activityId, timeSecs, [segmentId+activityId]',
+      routeGroups: '++id, name, fingerprint, activityId',
+      routeActivities: '++id, routeId, activityId, [routeId+activityId]'
+    });
+  }
+
+  // ============ ACTIVITY DETAILS WITH BINARY STREAMS ============
+
+  private async attachStreams(detail: ActivityDetail | undefined): Promise<ActivityDetail | undefined> {
+    if (!detail) return detail;
+    const record = await this.activityStreams.get(detail.id);
+    return record ? { ...detail, streams: decodeStreams(record) } : detail;
+  }
+
+  /**
+   * Read an activity detail with its streams decoded from the activityStreams table
+   */
+  async getActivityDetail(id: string): Promise<ActivityDetail | undefined> {
+    return await this.attachStreams(await this.allActivityDetails.get(id));
+  }
+
+  async getAllActivityDetails(): Promise<ActivityDetail[]> {
+    const details = await this.allActivityDetails.toArray();
+    const records = await this.activityStreams.toArray();
+    const byId = new Map(records.map(r => [r.id, r]));
+    return details.map(detail => {
+      const record = byId.get(detail.id);
+      return record ? { ...detail, streams: decodeStreams(record) } : detail;
+    });
+  }
+
+  /**
+   * Store an activity detail, splitting its streams into the activityStreams table.
+   * A detail without streams clears any previously stored streams.
+   */
+  async putActivityDetail(detail: ActivityDetail): Promise<void> {
+    const { streams, ...rest } = detail;
+    await this.transaction('rw', this.allActivityDetails, this.activityStreams, async () => {
+      await this.allActivityDetails.put(rest);
+      if (streams && Object.keys(streams).length > 0) {
+        await this.activityStreams.put(encodeStreams(detail.id, streams));
+      } else {
+        await this.activityStreams.delete(detail.id);
+      }
+    });
+  }
+
+  async deleteActivityDetail(id: string): Promise<void> {
+    await this.transaction('rw', this.allActivityDetails, this.activityStreams, async () => {
+      await this.allActivityDetails.delete(id);
+      await this.activityStreams.delete(id);
+    });
+  }
+
+  /**
+   * Delete activities and everything derived from them. Routes that used one
+   * as their reference move to another member, or are dropped when empty.
+   */
+  async deleteActivities(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const idSet = new Set(ids);
+    await this.transaction('rw', [this.allActivities, this.allActivityDetails, this.activityStreams, this.deviceFiles, this.pendingStravaEdits, this.activityPhotos, this.activityOverrides, this.activityTags, this.collections, this.activitySegments, this.segmentEfforts, this.routeGroups, this.routeActivities], async () => {
+      await this.allActivities.bulkDelete(ids);
+      await this.allActivityDetails.bulkDelete(ids);
+      await this.activityStreams.bulkDelete(ids);
+      await this.deviceFiles.bulkDelete(ids);
+      await this.pendingStravaEdits.bulkDelete(ids);
+      await this.activityPhotos.where('activityId').anyOf(ids).delete();
+      await this.activityOverrides.bulkDelete(ids);
+      await this.activityTags.where('activityId').anyOf(ids).delete();
+      await this.activitySegments.where('activityId').anyOf(ids).delete();
+      await this.segmentEfforts.where('activityId').anyOf(ids).delete();
+      await this.routeActivities.where('activityId').anyOf(ids).delete();
+      await this.collections
+        .filter(c => c.activityIds.some(id => idSet.has(id)))
+        .modify(c => {
+          c.activityIds = c.activityIds.filter(id => !idSet.has(id));
+          c.updatedAt = Date.now();
+        });
+
+      for (const route of await this.routeGroups.where('activityId').anyOf(ids).toArray()) {
+        const next = await this.routeActivities.where('routeId').equals(route.id!).first();
+        if (next) {
+          await this.routeGroups.update(route.id!, { activityId: next.activityId });
+        } else {
+          await this.routeGroups.delete(route.id!);
+        }
+      }
+    });
+  }
+
+  async getStreamStorageStats(): Promise<{ activities: number; rawBytes: number; encodedBytes: number }> {
+    let activities = 0;
+    let rawBytes = 0;
+    let encodedBytes = 0;
+    await this.activityStreams.each(record => {
+      activities++;
+      rawBytes += record.rawBytes;
+      encodedBytes += record.encodedBytes;
+    });
+    return { activities, rawBytes, encodedBytes };
   }
 
   async clearAllData(): Promise<void> {
     try {
-      await this.transaction('rw', [this.settings, this.activities, this.activityDetails, this.athlete, this.allActivities, this.allActivityDetails, this.activitySegments, this.segments, this.segmentEfforts, this.routeGroups, this.routeActivities], async () => {
+      await this.transaction('rw', [this.settings, this.athlete, this.syncState, this.jobs, this.jobItems, this.deviceFiles, this.pendingStravaEdits, this.activityPhotos, this.allActivities, this.allActivityDetails, this.activityStreams, this.activityOverrides, this.activityTags, this.collections, this.gear, this.activitySegments, this.segments, this.segmentEfforts, this.routeGroups, this.routeActivities], async () => {
         await this.settings.clear();
-        await this.activities.clear();
-        await this.activityDetails.clear();
         await this.athlete.clear();
+        await this.syncState.clear();
+        await this.jobs.clear();
+        await this.jobItems.clear();
+        await this.deviceFiles.clear();
+        await this.pendingStravaEdits.clear();
+        await this.activityPhotos.clear();
         await this.allActivities.clear();
         await this.allActivityDetails.clear();
+        await this.activityStreams.clear();
+        await this.activityOverrides.clear();
+        await this.activityTags.clear();
+        await this.collections.clear();
+        await this.gear.clear();
         await this.activitySegments.clear();
         await this.segments.clear();
         await this.segmentEfforts.clear();
@@ -429,18 +1162,6 @@ export class AthleteInsightDB extends Dexie {
     }
   }
 
-  async deleteLegacyTables(): Promise<void> {
-    try {
-      await this.transaction('rw', [this.activities, this.activityDetails], async () => {
-        await this.activities.clear();
-        await this.activityDetails.clear();
-      });
-    } catch (error) {
-      console.error('Error clearing legacy tables:', error);
-      throw error;
-    }
-  }
-
   async deleteDatabase(): Promise<void> {
     try {
       await this.delete();
@@ -449,14 +1170,20 @@ export class AthleteInsightDB extends Dexie {
     }
   }
 
-  async exportData(): Promise<string> {
+  async exportData(options: ExportOptions = {}): Promise<string> {
     try {
+      const settings = await this.settings.toArray();
       const data = {
-        version: 8,
+        version: BACKUP_FORMAT_VERSION,
         timestamp: new Date().toISOString(),
-        settings: await this.settings.toArray(),
+        profile: profileService.getActiveProfile().name,
+        settings: options.includeClientSecret ? settings : settings.map(({ clientSecret, ...rest }) => rest),
         allActivities: await this.allActivities.toArray(),
-        allActivityDetails: await this.allActivityDetails.toArray(),
+        allActivityDetails: await this.getAllActivityDetails(),
+        activityOverrides: await this.activityOverrides.toArray(),
+        activityTags: await this.activityTags.toArray(),
+        collections: await this.collections.toArray(),
+        gear: await this.gear.toArray(),
         athlete: await this.athlete.toArray(),
         activitySegments: await this.activitySegments.toArray(),
         segments: await this.segments.toArray(),
@@ -471,28 +1198,50 @@ export class AthleteInsightDB extends Dexie {
     }
   }
 
-  async importData(jsonData: string): Promise<void> {
+  async importData(jsonData: string, mode: ImportMode = 'replace'): Promise<void> {
     try {
-      const data = JSON.parse(jsonData);
-      
-      // Validate data structure
-      if (!data.version || !data.timestamp) {
-        throw new Error('Invalid data format - missing version or timestamp');
+      const data = this.parseImportData(jsonData);
+
+      if (mode === 'merge') {
+        await this.mergeData(data);
+        return;
       }
 
+      // Backups leave out the client secret by default; keep ours for the same app
+      const localSettings = await this.settings.toArray();
+
       // Clear existing data
       await this.clearAllData();
 
       // Import data
-      await this.transaction('rw', [this.settings, this.allActivities, this.allActivityDetails, this.athlete, this.activitySegments, this.segments, this.segmentEfforts, this.routeGroups, this.routeActivities], async () => {
+      await this.transaction('rw', [this.settings, this.allActivities, this.allActivityDetails, this.activityStreams, this.activityOverrides, this.activityTags, this.collections, this.gear, this.athlete, this.activitySegments, this.segments, this.segmentEfforts, this.routeGroups, this.routeActivities], async () => {
         if (data.settings && Array.isArray(data.settings)) {
-          await this.settings.bulkAdd(data.settings);
+          await this.settings.bulkAdd((data.settings as StravaSettings[]).map(incoming => {
+            const local = localSettings.find(l => l.clientId === incoming.clientId);
+            return incoming.clientSecret || incoming.tokenProxyUrl || !local?.clientSecret
+              ? incoming
+              : { ...incoming, clientSecret: local.clientSecret };
+          }));
         }
         if (data.allActivities && Array.isArray(data.allActivities)) {
           await this.allActivities.bulkAdd(data.allActivities);
         }
         if (data.allActivityDetails && Array.isArray(data.allActivityDetails)) {
-          await this.allActivityDetails.bulkAdd(data.allActivityDetails);
+          for (const detail of data.allActivityDetails as ActivityDetail[]) {
+            await this.putActivityDetail(detail);
+          }
+        }
+        if (data.activityOverrides && Array.isArray(data.activityOverrides)) {
+          await this.activityOverrides.bulkAdd(data.activityOverrides);
+        }
+        if (data.activityTags && Array.isArray(data.activityTags)) {
+          await this.activityTags.bulkAdd(data.activityTags);
+        }
+        if (data.collections && Array.isArray(data.collections)) {
+          await this.collections.bulkAdd(data.collections);
+        }
+        if (data.gear && Array.isArray(data.gear)) {
+          await this.gear.bulkAdd(data.gear);
         }
         if (data.athlete && Array.isArray(data.athlete)) {
           await this.athlete.bulkAdd(data.athlete);
@@ -518,6 +1267,10 @@ export class AthleteInsightDB extends Dexie {
         settings: data.settings?.length || 0,
         allActivities: data.allActivities?.length || 0,
         allActivityDetails: data.allActivityDetails?.length || 0,
+        activityOverrides: data.activityOverrides?.length || 0,
+        activityTags: data.activityTags?.length || 0,
+        collections: data.collections?.length || 0,
+        gear: data.gear?.length || 0,
         athlete: data.athlete?.length || 0,
         activitySegments: data.activitySegments?.length || 0,
         segments: data.segments?.length || 0,
@@ -531,6 +1284,378 @@ export class AthleteInsightDB extends Dexie {
     }
   }
 
+  /**
+   * Dry-run a merge import and report what would be added, updated or
+   * deduplicated. Nothing is written.
+   */
+  async previewImport(jsonData: string): Promise<ImportConflictReport> {
+    const data = this.parseImportData(jsonData);
+    const plan = await this.buildMergePlan(data);
+    return plan.report;
+  }
+
+  private parseImportData(jsonData: string): any {
+    const data = JSON.parse(jsonData);
+
+    // Validate data structure
+    if (!data.version || !data.timestamp) {
+      throw new Error('Invalid data format - missing version or timestamp');
+    }
+
+    // Upgrade older backup formats step by step before touching any table
+    const migrated = migrateBackup(data);
+    if (data.version !== migrated.version) {
+      migrated.migratedFrom = data.version;
+    }
+    return migrated;
+  }
+
+  private async buildMergePlan(data: any): Promise<MergePlan> {
+    const incomingActivities: Activity[] = Array.isArray(data.allActivities) ? data.allActivities : [];
+    const incomingSegments: Segment[] = Array.isArray(data.segments) ? data.segments : [];
+    const incomingEfforts: SegmentEffort[] = Array.isArray(data.segmentEfforts) ? data.segmentEfforts : [];
+    const incomingRoutes: RouteGroup[] = Array.isArray(data.routeGroups) ? data.routeGroups : [];
+    const incomingRouteActivities: RouteActivity[] = Array.isArray(data.routeActivities) ? data.routeActivities : [];
+    const incomingActivitySegments: ActivitySegment[] = Array.isArray(data.activitySegments) ? data.activitySegments : [];
+
+    const report: ImportConflictReport = {
+      version: data.version,
+      migratedFrom: data.migratedFrom,
+      timestamp: data.timestamp,
+      profile: data.profile,
+      activities: { added: 0, updated: 0, unchanged: 0 },
+      conflicts: [],
+      segments: { added: 0, duplicates: 0 },
+      segmentEfforts: { added: 0, duplicates: 0, orphaned: 0 },
+      routeGroups: { added: 0, duplicates: 0 },
+      routeActivities: { added: 0, duplicates: 0, orphaned: 0 },
+      activitySegments: { added: 0, duplicates: 0 },
+      activityOverrides: { added: 0, duplicates: 0 },
+      activityTags: { added: 0, duplicates: 0 },
+      collections: { added: 0, duplicates: 0 },
+      gear: { added: 0, duplicates: 0 }
+    };
+
+    const activityIdMap = new Map<string, string>();
+    for (const incoming of incomingActivities) {
+      let local = await this.allActivities.get(incoming.id);
+      let matchedBy: 'id' | 'externalId' = 'id';
+      if (!local && incoming.externalId !== undefined) {
+        local = await this.allActivities.where('externalId').equals(incoming.externalId).first();
+        matchedBy = 'externalId';
+      }
+
+      if (!local) {
+        activityIdMap.set(incoming.id, incoming.id);
+        report.activities.added++;
+        continue;
+      }
+
+      activityIdMap.set(incoming.id, local.id);
+      const fields = CONFLICT_FIELDS.filter(f => local![f] !== incoming[f]);
+      if (fields.length === 0) {
+        report.activities.unchanged++;
+        continue;
+      }
+      report.activities.updated++;
+      report.conflicts.push({
+        incomingId: incoming.id,
+        localId: local.id,
+        externalId: incoming.externalId,
+        matchedBy,
+        localName: local.name,
+        incomingName: incoming.name,
+        fields
+      });
+    }
+
+    const remapActivityId = (id: string) => activityIdMap.get(id) || id;
+
+    // Efforts and route activities are only merged when their parent is in the backup
+    const incomingSegmentIds = new Set(incomingSegments.map(s => s.id).filter((id): id is number => id !== undefined));
+    const incomingRouteIds = new Set(incomingRoutes.map(r => r.id).filter((id): id is number => id !== undefined));
+
+    const localSegments = await this.segments.toArray();
+    const existingSegmentIds = new Map<number, number>();
+    for (const seg of incomingSegments) {
+      const activityId = remapActivityId(seg.activityId);
+      const match = localSegments.find(l =>
+        l.activityId === activityId &&
+        l.startIndex === seg.startIndex &&
+        l.endIndex === seg.endIndex
+      );
+      if (match && seg.id !== undefined) {
+        existingSegmentIds.set(seg.id, match.id!);
+        report.segments.duplicates++;
+      } else {
+        report.segments.added++;
+      }
+    }
+
+    for (const eff of incomingEfforts) {
+      if (!incomingSegmentIds.has(eff.segmentId)) {
+        report.segmentEfforts.orphaned++;
+        continue;
+      }
+      const localSegmentId = existingSegmentIds.get(eff.segmentId);
+      const exists = localSegmentId !== undefined && await this.segmentEfforts
+        .where('[segmentId+activityId]')
+        .equals([localSegmentId, remapActivityId(eff.activityId)])
+        .count() > 0;
+      if (exists) {
+        report.segmentEfforts.duplicates++;
+      } else {
+        report.segmentEfforts.added++;
+      }
+    }
+
+    const localRoutes = await this.routeGroups.toArray();
+    const existingRouteIds = new Map<number, number>();
+    for (const route of incomingRoutes) {
+      const match = localRoutes.find(l => l.fingerprint === route.fingerprint);
+      if (match && route.id !== undefined) {
+        existingRouteIds.set(route.id, match.id!);
+        report.routeGroups.duplicates++;
+      } else {
+        report.routeGroups.added++;
+      }
+    }
+
+    for (const ra of incomingRouteActivities) {
+      if (!incomingRouteIds.has(ra.routeId)) {
+        report.routeActivities.orphaned++;
+        continue;
+      }
+      const localRouteId = existingRouteIds.get(ra.routeId);
+      const exists = localRouteId !== undefined && await this.routeActivities
+        .where('[routeId+activityId]')
+        .equals([localRouteId, remapActivityId(ra.activityId)])
+        .count() > 0;
+      if (exists) {
+        report.routeActivities.duplicates++;
+      } else {
+        report.routeActivities.added++;
+      }
+    }
+
+    for (const seg of incomingActivitySegments) {
+      const exists = await this.activitySegments
+        .where('activityId')
+        .equals(remapActivityId(seg.activityId))
+        .filter(l => l.distanceKm === seg.distanceKm)
+        .count() > 0;
+      if (exists) {
+        report.activitySegments.duplicates++;
+      } else {
+        report.activitySegments.added++;
+      }
+    }
+
+    for (const override of (Array.isArray(data.activityOverrides) ? data.activityOverrides : []) as ActivityOverride[]) {
+      if (await this.activityOverrides.get(remapActivityId(override.id))) {
+        report.activityOverrides.duplicates++;
+      } else {
+        report.activityOverrides.added++;
+      }
+    }
+
+    for (const tag of (Array.isArray(data.activityTags) ? data.activityTags : []) as ActivityTag[]) {
+      const exists = await this.activityTags
+        .where('activityId')
+        .equals(remapActivityId(tag.activityId))
+        .filter(l => l.tag === tag.tag)
+        .count() > 0;
+      if (exists) {
+        report.activityTags.duplicates++;
+      } else {
+        report.activityTags.added++;
+      }
+    }
+
+    // Collections with the same name are combined rather than duplicated
+    for (const collection of (Array.isArray(data.collections) ? data.collections : []) as ActivityCollection[]) {
+      if (await this.collections.where('name').equals(collection.name).count() > 0) {
+        report.collections.duplicates++;
+      } else {
+        report.collections.added++;
+      }
+    }
+
+    for (const item of (Array.isArray(data.gear) ? data.gear : []) as GearItem[]) {
+      if (await this.gear.get(item.id)) {
+        report.gear.duplicates++;
+      } else {
+        report.gear.added++;
+      }
+    }
+
+    return { report, activityIdMap, existingSegmentIds, existingRouteIds };
+  }
+
+  /**
+   * Merge a backup into the current database without clearing it.
+   * Activities are upserted by UUID, falling back to the Strava externalId;
+   * auto-increment ids of segments, efforts and routes are reassigned so they
+   * never collide with local rows.
+   */
+  private async mergeData(data: any): Promise<ImportConflictReport> {
+    const tables = [this.settings, this.allActivities, this.allActivityDetails, this.activityStreams, this.activityOverrides, this.activityTags, this.collections, this.gear, this.athlete, this.activitySegments, this.segments, this.segmentEfforts, this.routeGroups, this.routeActivities];
+
+    const report = await this.transaction('rw', tables, async () => {
+      const plan = await this.buildMergePlan(data);
+      const remapActivityId = (id: string) => plan.activityIdMap.get(id) || id;
+
+      // Keep local credentials and athlete profile; only fill them in when empty
+      if (Array.isArray(data.settings) && data.settings.length > 0 && await this.settings.count() === 0) {
+        await this.settings.bulkAdd(data.settings);
+      }
+      if (Array.isArray(data.athlete) && data.athlete.length > 0 && await this.athlete.count() === 0) {
+        await this.athlete.bulkAdd(data.athlete);
+      }
+
+      for (const incoming of (data.allActivities || []) as Activity[]) {
+        const id = remapActivityId(incoming.id);
+        const local = await this.allActivities.get(id);
+        await this.allActivities.put({ ...local, ...incoming, id });
+      }
+
+      for (const incoming of (data.allActivityDetails || []) as ActivityDetail[]) {
+        const id = remapActivityId(incoming.id);
+        const local = await this.getActivityDetail(id);
+        await this.putActivityDetail({
+          ...local,
+          ...incoming,
+          id,
+          streams: incoming.streams || local?.streams
+        });
+      }
+
+      for (const incoming of (data.activityOverrides || []) as ActivityOverride[]) {
+        const id = remapActivityId(incoming.id);
+        const local = await this.activityOverrides.get(id);
+        await this.activityOverrides.put({ ...local, ...incoming, id });
+      }
+
+      for (const tag of (data.activityTags || []) as ActivityTag[]) {
+        const activityId = remapActivityId(tag.activityId);
+        const exists = await this.activityTags
+          .where('activityId')
+          .equals(activityId)
+          .filter(l => l.tag === tag.tag)
+          .count() > 0;
+        if (exists) continue;
+        const { id: _oldId, ...rest } = tag;
+        await this.activityTags.add({ ...rest, activityId });
+      }
+
+      for (const incoming of (data.collections || []) as ActivityCollection[]) {
+        const { id: _oldId, ...rest } = incoming;
+        const activityIds = (incoming.activityIds || []).map(remapActivityId);
+        const local = await this.collections.where('name').equals(incoming.name).first();
+        if (local) {
+          await this.collections.update(local.id!, {
+            activityIds: Array.from(new Set([...local.activityIds, ...activityIds])),
+            tags: Array.from(new Set([...local.tags, ...(incoming.tags || [])])),
+            updatedAt: Date.now()
+          });
+        } else {
+          await this.collections.add({ ...rest, activityIds, tags: incoming.tags || [] });
+        }
+      }
+
+      for (const incoming of (data.gear || []) as GearItem[]) {
+        const local = await this.gear.get(incoming.id);
+        await this.gear.put({ ...local, ...incoming });
+      }
+
+      const segmentIdMap = new Map<number, number>(plan.existingSegmentIds);
+      for (const seg of (data.segments || []) as Segment[]) {
+        if (seg.id !== undefined && plan.existingSegmentIds.has(seg.id)) continue;
+        const { id: oldId, ...rest } = seg;
+        const newId = await this.segments.add({ ...rest, activityId: remapActivityId(seg.activityId) }) as number;
+        if (oldId !== undefined) {
+          segmentIdMap.set(oldId, newId);
+        }
+      }
+
+      for (const eff of (data.segmentEfforts || []) as SegmentEffort[]) {
+        const segmentId = segmentIdMap.get(eff.segmentId);
+        if (segmentId === undefined) continue;
+        const activityId = remapActivityId(eff.activityId);
+        const exists = await this.segmentEfforts.where('[segmentId+activityId]').equals([segmentId, activityId]).count() > 0;
+        if (exists) continue;
+        const { id: _oldId, ...rest } = eff;
+        await this.segmentEfforts.add({ ...rest, segmentId, activityId });
+      }
+
+      const routeIdMap = new Map<number, number>(plan.existingRouteIds);
+      for (const route of (data.routeGroups || []) as RouteGroup[]) {
+        if (route.id !== undefined && plan.existingRouteIds.has(route.id)) continue;
+        const { id: oldId, ...rest } = route;
+        const newId = await this.routeGroups.add({ ...rest, activityId: remapActivityId(route.activityId) }) as number;
+        if (oldId !== undefined) {
+          routeIdMap.set(oldId, newId);
+        }
+      }
+
+      for (const ra of (data.routeActivities || []) as RouteActivity[]) {
+        const routeId = routeIdMap.get(ra.routeId);
+        if (routeId === undefined) continue;
+        const activityId = remapActivityId(ra.activityId);
+        const exists = await this.routeActivities.where('[routeId+activityId]').equals([routeId, activityId]).count() > 0;
+        if (exists) continue;
+        const { id: _oldId, ...rest } = ra;
+        await this.routeActivities.add({ ...rest, routeId, activityId });
+      }
+
+      for (const seg of (data.activitySegments || []) as ActivitySegment[]) {
+        const activityId = remapActivityId(seg.activityId);
+        const exists = await this.activitySegments
+          .where('activityId')
+          .equals(activityId)
+          .filter(l => l.distanceKm === seg.distanceKm)
+          .count() > 0;
+        if (exists) continue;
+        const { id: _oldId, ...rest } = seg;
+        await this.activitySegments.add({ ...rest, activityId });
+      }
+
+      return plan.report;
+    });
+
+    console.log('Data merged successfully:', report);
+    return report;
+  }
+
+  /**
+   * Estimate the size of every table without reading it all: the average
+   * JSON size of a small sample is multiplied by the row count. Stream rows
+   * report their exact encoded size instead.
+   */
+  async estimateTableSizes(): Promise<TableSizeEstimate[]> {
+    const estimates: TableSizeEstimate[] = [];
+
+    for (const table of this.tables) {
+      const rows = await table.count();
+      let estimatedBytes = 0;
+
+      if (table.name === 'activityStreams') {
+        estimatedBytes = (await this.getStreamStorageStats()).encodedBytes;
+      } else if (table.name === 'activityPhotos') {
+        // Blobs don't show up in JSON, so use the recorded image sizes
+        await this.activityPhotos.each(photo => { estimatedBytes += photo.size || 0; });
+      } else if (rows > 0) {
+        const sample = await table.limit(SIZE_SAMPLE_ROWS).toArray();
+        const sampleBytes = sample.reduce((sum, row) => sum + JSON.stringify(row).length, 0);
+        estimatedBytes = Math.round((sampleBytes / sample.length) * rows);
+      }
+
+      estimates.push({ table: table.name, rows, estimatedBytes });
+    }
+
+    return estimates.sort((a, b) => b.estimatedBytes - a.estimatedBytes);
+  }
+
   async getDataStats(): Promise<{
     settings: number;
     allActivities: number;
@@ -538,6 +1663,8 @@ export class AthleteInsightDB extends Dexie {
     athlete: number;
     segments: number;
     segmentEfforts: number;
+    streamStorage: { activities: number; rawBytes: number; encodedBytes: number };
+    tables: TableSizeEstimate[];
     totalSize: string;
   }> {
     try {
@@ -550,15 +1677,16 @@ export class AthleteInsightDB extends Dexie {
         segmentEfforts: await this.segmentEfforts.count(),
         routeGroups: await this.routeGroups.count(),
         routeActivities: await this.routeActivities.count(),
+        streamStorage: await this.getStreamStorageStats(),
+        tables: [] as TableSizeEstimate[],
         totalSize: 'Calculating...'
       };
 
-      // Estimate size by exporting data and measuring
       try {
-        const exported = await this.exportData();
-        const sizeInBytes = new Blob([exported]).size;
+        stats.tables = await this.estimateTableSizes();
+        const sizeInBytes = stats.tables.reduce((sum, t) => sum + t.estimatedBytes, 0);
         const sizeInMB = (sizeInBytes / 1024 / 1024).toFixed(2);
-        stats.totalSize = `${sizeInMB} MB`;
+        stats.totalSize = `~${sizeInMB} MB`;
       } catch (sizeError) {
         console.warn('Could not calculate database size:', sizeError);
         stats.totalSize = 'Unknown';
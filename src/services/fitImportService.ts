@@ -1,4 +1,5 @@
 import { db, Activity, ActivityDetail } from './database';
+import { parseGpx, parseTcx, SPORT_TYPES } from './trackFileParser';
 
 export interface ParsedFitActivity {
   summary: Activity;
@@ -14,10 +15,41 @@ export interface FitFileEntry {
   activity?: ParsedFitActivity;
 }
 
+/** Activity file formats the importer understands */
+export const SUPPORTED_EXTENSIONS = ['.fit', '.gpx', '.tcx'];
+
+export const isSupportedFile = (fileName: string) =>
+  SUPPORTED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+/** Strava's upload data_type for a file we imported */
+export const uploadDataType = (fileName: string) =>
+  fileName.toLowerCase().split('.').pop() || 'fit';
+
 export class FitImportService {
   async parseFitFile(file: File): Promise<ParsedFitActivity> {
-    const arrayBuffer = await file.arrayBuffer();
-    
+    return await this.parseFitData(await file.arrayBuffer(), file.name);
+  }
+
+  /** Parse any supported activity file, picking the parser by extension */
+  async parseFile(file: File): Promise<ParsedFitActivity> {
+    return await this.parseFileData(await file.arrayBuffer(), file.name);
+  }
+
+  async parseFileData(arrayBuffer: ArrayBuffer, fileName: string): Promise<ParsedFitActivity> {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.gpx')) {
+      return parseGpx(new TextDecoder().decode(arrayBuffer), fileName);
+    }
+    if (name.endsWith('.tcx')) {
+      return parseTcx(new TextDecoder().decode(arrayBuffer), fileName);
+    }
+    if (name.endsWith('.fit')) {
+      return await this.parseFitData(arrayBuffer, fileName);
+    }
+    throw new Error(`Unsupported file type: ${fileName}`);
+  }
+
+  async parseFitData(arrayBuffer: ArrayBuffer, fileName: string): Promise<ParsedFitActivity> {
     const FitParser = (await import('fit-file-parser')).default;
 
     return new Promise((resolve, reject) => {
@@ -41,7 +73,7 @@ export class FitImportService {
           }
 
           try {
-            const result = this.mapFitDataToActivity(data, file.name);
+            const result = this.mapFitDataToActivity(data, fileName);
             resolve(result);
           } catch (mapError) {
             reject(new Error(`Failed to map FIT data: ${mapError}`));
@@ -57,23 +89,9 @@ export class FitImportService {
     const session = data.sessions[0];
     const records = data.records || [];
 
-    const sportMap: Record<string, string> = {
-      running: 'Run',
-      cycling: 'Ride',
-      swimming: 'Swim',
-      hiking: 'Hike',
-      walking: 'Walk',
-      mountain_biking: 'MountainBikeRide',
-      trail_running: 'TrailRun',
-      virtual_ride: 'VirtualRide',
-      virtual_run: 'VirtualRun',
-      workout: 'Workout',
-      other: 'Other',
-    };
-
     const sport = session.sport || 'other';
     const subSport = session.sub_sport || '';
-    const type = sportMap[sport] || sportMap[subSport] || 'Other';
+    const type = SPORT_TYPES[sport] || SPORT_TYPES[subSport] || 'Other';
 
     const uuid = crypto.randomUUID();
     const startDate = new Date(
@@ -153,6 +171,11 @@ export class FitImportService {
 
     const name = session.sport ? `${session.sport} Activity` : fileName.replace(/\.fit$/i, '');
 
+    // The activity message records local time next to UTC; the gap is the UTC offset
+    const utcOffset = data.activity?.timestamp && data.activity?.local_timestamp
+      ? Math.round((new Date(data.activity.local_timestamp).getTime() - new Date(data.activity.timestamp).getTime()) / 1000)
+      : undefined;
+
     const summary: Activity = {
       id: uuid,
       source: 'device',
@@ -163,7 +186,8 @@ export class FitImportService {
       total_elevation_gain: elevGain,
       type,
       start_date: startDate,
-      start_date_local: startDate,
+      start_date_local: utcOffset !== undefined ? new Date(Date.parse(startDate) + utcOffset * 1000).toISOString() : startDate,
+      utc_offset: utcOffset,
       average_speed: avgSpeed,
       max_speed: session.max_speed || (speed.length > 0 ? Math.max(...speed) : 0),
       average_heartrate: avgHr,
@@ -263,10 +287,16 @@ export class FitImportService {
     });
   }
 
-  async storeActivity(activity: Activity, details: ActivityDetail): Promise<void> {
-    await db.transaction('rw', [db.allActivities, db.allActivityDetails], async () => {
+  async storeActivity(activity: Activity, details: ActivityDetail, file?: File): Promise<void> {
+    // Read before the transaction; awaiting a non-Dexie promise inside would commit it early
+    const data = file ? await file.arrayBuffer() : undefined;
+    await db.transaction('rw', [db.allActivities, db.allActivityDetails, db.activityStreams, db.deviceFiles], async () => {
       await db.allActivities.add(activity);
-      await db.allActivityDetails.add(details);
+      await db.putActivityDetail(details);
+      if (file && data) {
+        // Kept for uploading to Strava later
+        await db.deviceFiles.put({ id: activity.id, fileName: file.name, data, size: file.size, createdAt: Date.now() });
+      }
     });
   }
 }
@@ -0,0 +1,150 @@
+import { db, GearItem, ActivityView } from './database';
+import { activityOverrideService } from './activityOverrideService';
+
+export interface GearStats {
+  gear: GearItem;
+  activities: number;
+  distance: number; // meters
+  movingTime: number; // seconds
+  lastUsed?: string;
+  overThreshold: boolean;
+}
+
+const SHOE_TYPES = ['run', 'trailrun', 'trail_run', 'virtualrun', 'walk', 'hike'];
+
+export class GearService {
+  /**
+   * Make sure every shoe and bike on the Strava athlete profile has a gear
+   * row, keeping any local threshold or retirement flag already set.
+   */
+  async syncFromAthlete(): Promise<void> {
+    const athlete = await db.athlete.toCollection().first();
+    if (!athlete) return;
+
+    const now = Date.now();
+    const stravaGear = [
+      ...(athlete.shoes || []).map((g: any) => ({ ...g, kind: 'shoe' as const })),
+      ...(athlete.bikes || []).map((g: any) => ({ ...g, kind: 'bike' as const })),
+    ];
+
+    for (const g of stravaGear) {
+      if (!g?.id) continue;
+      const existing = await db.gear.get(g.id);
+      if (existing) {
+        if (existing.name !== g.name) {
+          await db.gear.update(g.id, { name: g.name, updatedAt: now });
+        }
+      } else {
+        await db.gear.add({
+          id: g.id,
+          name: g.name || g.id,
+          kind: g.kind,
+          source: 'strava',
+          retired: g.retired || undefined,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+  }
+
+  async getGear(): Promise<GearItem[]> {
+    await this.syncFromAthlete();
+    const gear = await db.gear.toArray();
+    return gear.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+  }
+
+  async createGear(name: string, kind: GearItem['kind'], retirementKm?: number): Promise<string> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Gear name is required');
+    }
+    const now = Date.now();
+    const id = `local-${crypto.randomUUID()}`;
+    await db.gear.add({ id, name: trimmed, kind, source: 'local', retirementKm, createdAt: now, updatedAt: now });
+    return id;
+  }
+
+  async updateGear(id: string, changes: Partial<Pick<GearItem, 'name' | 'retirementKm' | 'retired'>>): Promise<void> {
+    await db.gear.update(id, { ...changes, updatedAt: Date.now() });
+  }
+
+  /**
+   * Delete gear added in the app and unassign it from activities.
+   * Strava gear is only hidden by retiring it, as it comes back on the next sync.
+   */
+  async deleteGear(id: string): Promise<void> {
+    const gear = await db.gear.get(id);
+    if (!gear) return;
+    if (gear.source === 'strava') {
+      throw new Error('Strava gear cannot be deleted - retire it instead');
+    }
+
+    const overrides = await db.activityOverrides.filter(o => o.gear_id === id).toArray();
+    for (const override of overrides) {
+      const activity = await db.allActivities.get(override.id);
+      if (activity) {
+        await activityOverrideService.saveOverride(activity, { gear_id: '' });
+      } else {
+        await activityOverrideService.clearOverride(override.id);
+      }
+    }
+    await db.gear.delete(id);
+  }
+
+  /** Assign gear through the override layer so a re-sync never undoes it */
+  async assignGear(activityIds: string[], gearId: string): Promise<void> {
+    for (const id of activityIds) {
+      const activity = await db.allActivities.get(id);
+      if (activity) {
+        await activityOverrideService.saveOverride(activity, { gear_id: gearId });
+      }
+    }
+  }
+
+  async getActivitiesWithGear(): Promise<ActivityView[]> {
+    return await activityOverrideService.withOverrides(await db.allActivities.toArray());
+  }
+
+  /** Device imports with no gear, newest first */
+  async getUnassignedDeviceActivities(): Promise<ActivityView[]> {
+    const activities = await this.getActivitiesWithGear();
+    return activities
+      .filter(a => a.source === 'device' && !a.gear_id)
+      .sort((a, b) => b.start_date_local.localeCompare(a.start_date_local));
+  }
+
+  suggestKind(activityType: string): GearItem['kind'] {
+    return SHOE_TYPES.includes(activityType.toLowerCase()) ? 'shoe' : 'bike';
+  }
+
+  async getGearStats(): Promise<GearStats[]> {
+    const gear = await this.getGear();
+    const activities = await this.getActivitiesWithGear();
+
+    return gear.map(item => {
+      const used = activities.filter(a => a.gear_id === item.id);
+      const distance = used.reduce((sum, a) => sum + (a.distance || 0), 0);
+      const lastUsed = used.reduce<string | undefined>(
+        (latest, a) => (!latest || a.start_date_local > latest ? a.start_date_local : latest),
+        undefined
+      );
+      return {
+        gear: item,
+        activities: used.length,
+        distance,
+        movingTime: used.reduce((sum, a) => sum + (a.moving_time || 0), 0),
+        lastUsed,
+        overThreshold: !!item.retirementKm && distance / 1000 >= item.retirementKm,
+      };
+    });
+  }
+
+  /** Gear still in use that has gone over its retirement threshold */
+  async getRetirementWarnings(): Promise<GearStats[]> {
+    const stats = await this.getGearStats();
+    return stats.filter(s => s.overThreshold && !s.gear.retired);
+  }
+}
+
+export const gearService = new GearService();
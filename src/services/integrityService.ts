@@ -0,0 +1,149 @@
+import { db } from './database';
+
+export type IntegrityTable = 'segmentEfforts' | 'routeActivities' | 'activitySegments' | 'routeGroups' | 'activityStreams';
+
+export interface IntegrityIssue {
+  table: IntegrityTable;
+  kind: 'orphan' | 'duplicate';
+  rowId: number | string;
+  description: string;
+  // routeGroups only: a remaining member to re-point the route at
+  replacementActivityId?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: number;
+  issues: IntegrityIssue[];
+  byTable: Record<IntegrityTable, { orphans: number; duplicates: number }>;
+}
+
+const TABLES: IntegrityTable[] = ['segmentEfforts', 'routeActivities', 'activitySegments', 'routeGroups', 'activityStreams'];
+
+export class IntegrityService {
+  /**
+   * Find rows that point at activities, segments or routes that no longer
+   * exist, plus duplicate rows for the same key. Nothing is changed.
+   */
+  async check(): Promise<IntegrityReport> {
+    const issues: IntegrityIssue[] = [];
+    const activityIds = new Set(await db.allActivities.toCollection().primaryKeys());
+    const segmentIds = new Set(await db.segments.toCollection().primaryKeys());
+    const routeIds = new Set(await db.routeGroups.toCollection().primaryKeys());
+
+    // Segment efforts: one per (segment, activity), fastest kept
+    const efforts = (await db.segmentEfforts.toArray()).sort((a, b) => a.timeSecs - b.timeSecs);
+    const seenEfforts = new Set<string>();
+    for (const eff of efforts) {
+      if (!segmentIds.has(eff.segmentId)) {
+        issues.push({ table: 'segmentEfforts', kind: 'orphan', rowId: eff.id!, description: `Effort #${eff.id} references missing segment #${eff.segmentId}` });
+      } else if (!activityIds.has(eff.activityId)) {
+        issues.push({ table: 'segmentEfforts', kind: 'orphan', rowId: eff.id!, description: `Effort #${eff.id} references missing activity ${eff.activityId}` });
+      } else {
+        const key = `${eff.segmentId}:${eff.activityId}`;
+        if (seenEfforts.has(key)) {
+          issues.push({ table: 'segmentEfforts', kind: 'duplicate', rowId: eff.id!, description: `Effort #${eff.id} duplicates segment #${eff.segmentId} on activity ${eff.activityId}` });
+        }
+        seenEfforts.add(key);
+      }
+    }
+
+    // Route activities: one per (route, activity), fastest kept
+    const routeActivities = (await db.routeActivities.toArray()).sort((a, b) => a.timeSecs - b.timeSecs);
+    const seenRouteActivities = new Set<string>();
+    const validMembers = new Map<number, string[]>();
+    for (const ra of routeActivities) {
+      if (!routeIds.has(ra.routeId)) {
+        issues.push({ table: 'routeActivities', kind: 'orphan', rowId: ra.id!, description: `Route entry #${ra.id} references missing route #${ra.routeId}` });
+      } else if (!activityIds.has(ra.activityId)) {
+        issues.push({ table: 'routeActivities', kind: 'orphan', rowId: ra.id!, description: `Route entry #${ra.id} references missing activity ${ra.activityId}` });
+      } else {
+        const key = `${ra.routeId}:${ra.activityId}`;
+        if (seenRouteActivities.has(key)) {
+          issues.push({ table: 'routeActivities', kind: 'duplicate', rowId: ra.id!, description: `Route entry #${ra.id} duplicates route #${ra.routeId} on activity ${ra.activityId}` });
+        } else {
+          validMembers.set(ra.routeId, [...(validMembers.get(ra.routeId) || []), ra.activityId]);
+        }
+        seenRouteActivities.add(key);
+      }
+    }
+
+    // Distance records: one per (activity, distance), fastest kept
+    const activitySegments = (await db.activitySegments.toArray()).sort((a, b) => a.timeSecs - b.timeSecs);
+    const seenActivitySegments = new Set<string>();
+    for (const seg of activitySegments) {
+      if (!activityIds.has(seg.activityId)) {
+        issues.push({ table: 'activitySegments', kind: 'orphan', rowId: seg.id!, description: `${seg.distanceKm} km record #${seg.id} references missing activity ${seg.activityId}` });
+        continue;
+      }
+      const key = `${seg.activityId}:${seg.distanceKm}`;
+      if (seenActivitySegments.has(key)) {
+        issues.push({ table: 'activitySegments', kind: 'duplicate', rowId: seg.id!, description: `${seg.distanceKm} km record #${seg.id} duplicates activity ${seg.activityId}` });
+      }
+      seenActivitySegments.add(key);
+    }
+
+    // Route groups whose reference activity is gone
+    for (const route of await db.routeGroups.toArray()) {
+      if (activityIds.has(route.activityId)) continue;
+      const replacement = validMembers.get(route.id!)?.[0];
+      issues.push({
+        table: 'routeGroups',
+        kind: 'orphan',
+        rowId: route.id!,
+        description: replacement
+          ? `Route "${route.name}" references missing activity ${route.activityId} (will use ${replacement})`
+          : `Route "${route.name}" references missing activity ${route.activityId} and has no other activities`,
+        replacementActivityId: replacement,
+      });
+    }
+
+    // Stream rows left behind without a detail row
+    const detailIds = new Set(await db.allActivityDetails.toCollection().primaryKeys());
+    for (const id of await db.activityStreams.toCollection().primaryKeys()) {
+      if (!detailIds.has(id)) {
+        issues.push({ table: 'activityStreams', kind: 'orphan', rowId: id, description: `Streams for missing activity ${id}` });
+      }
+    }
+
+    const byTable = {} as IntegrityReport['byTable'];
+    for (const table of TABLES) {
+      byTable[table] = {
+        orphans: issues.filter(i => i.table === table && i.kind === 'orphan').length,
+        duplicates: issues.filter(i => i.table === table && i.kind === 'duplicate').length,
+      };
+    }
+
+    return { checkedAt: Date.now(), issues, byTable };
+  }
+
+  /**
+   * Fix everything in a report: orphans and duplicates are deleted, and
+   * routes with a missing reference activity are re-pointed at a remaining
+   * member (or deleted when none is left).
+   */
+  async repair(report: IntegrityReport): Promise<number> {
+    const idsFor = <T extends number | string>(table: IntegrityTable) =>
+      report.issues.filter(i => i.table === table).map(i => i.rowId as T);
+
+    await db.transaction('rw', [db.segmentEfforts, db.routeActivities, db.activitySegments, db.routeGroups, db.activityStreams], async () => {
+      await db.segmentEfforts.bulkDelete(idsFor<number>('segmentEfforts'));
+      await db.routeActivities.bulkDelete(idsFor<number>('routeActivities'));
+      await db.activitySegments.bulkDelete(idsFor<number>('activitySegments'));
+      await db.activityStreams.bulkDelete(idsFor<string>('activityStreams'));
+
+      for (const issue of report.issues.filter(i => i.table === 'routeGroups')) {
+        const routeId = issue.rowId as number;
+        if (issue.replacementActivityId) {
+          await db.routeGroups.update(routeId, { activityId: issue.replacementActivityId });
+        } else {
+          await db.routeActivities.where('routeId').equals(routeId).delete();
+          await db.routeGroups.delete(routeId);
+        }
+      }
+    });
+
+    return report.issues.length;
+  }
+}
+
+export const integrityService = new IntegrityService();
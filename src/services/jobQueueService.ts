@@ -0,0 +1,203 @@
+import { db, Job, JobKind } from './database';
+import { stravaService } from './stravaService';
+import { segmentService } from './segmentService';
+import { uploadService } from './uploadService';
+import { RateLimitError } from './requestQueue';
+
+const JOB_HANDLERS: Record<JobKind, (activityId: string) => Promise<unknown>> = {
+  fetchStreams: activityId => stravaService.getActivityDetail(activityId),
+  recalculateRecords: activityId => stravaService.calculateSegmentsForActivity(activityId),
+  rescanSegments: activityId => segmentService.rescanActivity(activityId),
+  uploadToStrava: activityId => uploadService.upload(activityId),
+};
+
+const ACTIVE_STATUSES: Job['status'][] = ['queued', 'running', 'paused'];
+const RUNNER_LOCK = 'job-runner';
+
+/**
+ * Bulk work (stream downloads, record and segment recalculation) stored in
+ * IndexedDB with one row per activity. A single runner works through queued
+ * jobs in order; since progress is saved per item, a reload carries on from
+ * the first pending item. A Web Lock keeps the runner to one tab at a time.
+ */
+export class JobQueueService {
+  private listeners = new Set<(jobs: Job[]) => void>();
+  private running = false;
+
+  async getJobs(): Promise<Job[]> {
+    return await db.jobs.orderBy('createdAt').toArray();
+  }
+
+  /** Listen for job changes; returns an unsubscribe function */
+  subscribe(listener: (jobs: Job[]) => void): () => void {
+    this.listeners.add(listener);
+    this.getJobs().then(listener).catch(err => console.error('Failed to load jobs:', err));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Resolves once the job is done, cancelled or dismissed */
+  whenFinished(jobId: number): Promise<Job | undefined> {
+    return new Promise(resolve => {
+      const unsubscribe = this.subscribe(jobs => {
+        const job = jobs.find(j => j.id === jobId);
+        if (!job || job.status === 'done' || job.status === 'cancelled') {
+          unsubscribe();
+          resolve(job);
+        }
+      });
+    });
+  }
+
+  private async notify(): Promise<void> {
+    const jobs = await this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+
+  /** Pick up jobs left over from before a reload */
+  async start(): Promise<void> {
+    await this.notify();
+    this.run();
+  }
+
+  async enqueue(kind: JobKind, label: string, activityIds: string[]): Promise<number> {
+    const active = await db.jobs.where('status').anyOf(ACTIVE_STATUSES).filter(j => j.kind === kind).count();
+    if (active > 0) {
+      throw new Error(`"${label}" is already queued`);
+    }
+    if (activityIds.length === 0) {
+      throw new Error('There are no activities to process');
+    }
+
+    const now = Date.now();
+    const jobId = await db.transaction('rw', db.jobs, db.jobItems, async () => {
+      const id = await db.jobs.add({
+        kind,
+        label,
+        status: 'queued',
+        total: activityIds.length,
+        completed: 0,
+        failed: 0,
+        createdAt: now,
+        updatedAt: now,
+      }) as number;
+      await db.jobItems.bulkAdd(activityIds.map(activityId => ({ jobId: id, activityId, status: 'pending' as const })));
+      return id;
+    });
+
+    await this.notify();
+    this.run();
+    return jobId;
+  }
+
+  async pause(jobId: number): Promise<void> {
+    await db.jobs.where('id').equals(jobId).filter(j => j.status === 'queued' || j.status === 'running')
+      .modify({ status: 'paused', updatedAt: Date.now() });
+    await this.notify();
+  }
+
+  async resume(jobId: number): Promise<void> {
+    await db.jobs.where('id').equals(jobId).filter(j => j.status === 'paused')
+      .modify({ status: 'queued', updatedAt: Date.now() });
+    await this.notify();
+    this.run();
+  }
+
+  async cancel(jobId: number): Promise<void> {
+    await db.transaction('rw', db.jobs, db.jobItems, async () => {
+      await db.jobItems.where('[jobId+status]').equals([jobId, 'pending']).modify({ status: 'skipped' });
+      await db.jobs.update(jobId, { status: 'cancelled', updatedAt: Date.now() });
+    });
+    await this.notify();
+  }
+
+  /** Remove a finished or cancelled job and its items */
+  async dismiss(jobId: number): Promise<void> {
+    await db.transaction('rw', db.jobs, db.jobItems, async () => {
+      await db.jobItems.where('jobId').equals(jobId).delete();
+      await db.jobs.delete(jobId);
+    });
+    await this.notify();
+  }
+
+  private async nextJob(): Promise<Job | undefined> {
+    const jobs = await db.jobs.where('status').anyOf(['queued', 'running']).sortBy('createdAt');
+    return jobs[0];
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const work = () => this.runQueued();
+      await (typeof navigator !== 'undefined' && navigator.locks
+        ? navigator.locks.request(RUNNER_LOCK, work)
+        : work());
+    } catch (error) {
+      console.error('Job runner stopped:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runQueued(): Promise<void> {
+    // Holding the lock means no other tab is working on a 'running' job,
+    // so any left over were interrupted by a reload or a closed tab
+    await db.jobs.where('status').equals('running').modify({ status: 'queued' });
+    await this.notify();
+
+    let job = await this.nextJob();
+    while (job) {
+      await this.runJob(job.id!);
+      job = await this.nextJob();
+    }
+  }
+
+  private async runJob(jobId: number): Promise<void> {
+    await db.jobs.update(jobId, { status: 'running', updatedAt: Date.now() });
+    await this.notify();
+
+    for (;;) {
+      // Re-read every item so pause and cancel take effect straight away
+      const job = await db.jobs.get(jobId);
+      if (!job || job.status !== 'running') return;
+
+      const item = await db.jobItems.where('[jobId+status]').equals([jobId, 'pending']).first();
+      if (!item) {
+        await db.jobs.update(jobId, { status: 'done', updatedAt: Date.now() });
+        await this.notify();
+        return;
+      }
+
+      let error: string | undefined;
+      try {
+        await JOB_HANDLERS[job.kind](item.activityId);
+      } catch (err) {
+        if (err instanceof RateLimitError) {
+          // The item stays pending; resuming after the reset picks it up again
+          console.warn(`${job.label} paused:`, err.message);
+          await this.pause(jobId);
+          return;
+        }
+        console.warn(`${job.label} failed for activity ${item.activityId}:`, err);
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      await db.transaction('rw', db.jobs, db.jobItems, async () => {
+        await db.jobItems.update(item.id!, { status: error ? 'failed' : 'done', error });
+        const current = await db.jobs.get(jobId);
+        if (current) {
+          await db.jobs.update(jobId, {
+            completed: current.completed + 1,
+            failed: current.failed + (error ? 1 : 0),
+            updatedAt: Date.now(),
+          });
+        }
+      });
+      await this.notify();
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,125 @@
+import { db, ActivityPhoto } from './database';
+import { stravaService } from './stravaService';
+
+const PHOTO_SIZE = 1024;
+// Images that failed to download are tried again at most this often
+const RETRY_DOWNLOAD_MS = 24 * 60 * 60 * 1000;
+
+interface StravaPhoto {
+  unique_id: string;
+  caption?: string;
+  urls?: Record<string, string>;
+  location?: [number, number] | null;
+  created_at?: string;
+  default_photo?: boolean;
+}
+
+export interface PhotoWithSrc {
+  photo: ActivityPhoto;
+  src: string;
+}
+
+/**
+ * Strava activity photos, downloaded once and kept in IndexedDB so the
+ * gallery and map markers still work offline.
+ */
+export class PhotoService {
+  async getPhotos(activityId: string): Promise<ActivityPhoto[]> {
+    const photos = await db.activityPhotos.where('activityId').equals(activityId).toArray();
+    // Primary photo first, then in the order they were taken
+    return photos.sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || (a.createdAt || '').localeCompare(b.createdAt || ''));
+  }
+
+  /**
+   * Strava says the activity has photos and we either never fetched the
+   * list or some of its images failed to download a while ago
+   */
+  async needsFetch(activityId: string): Promise<boolean> {
+    const detail = await db.allActivityDetails.get(activityId);
+    if (!detail || detail.source !== 'strava' || detail.externalId === undefined) return false;
+    if ((detail.photos?.count ?? 0) === 0) return false;
+    if (detail.photosFetchedAt === undefined) return true;
+    const photos = await this.getPhotos(activityId);
+    return photos.some(p => !p.blob && Date.now() - p.fetchedAt > RETRY_DOWNLOAD_MS);
+  }
+
+  /**
+   * Fetch the photo list and download each image. Images that fail to
+   * download are stored without a blob and shown from Strava while online.
+   */
+  async fetchPhotos(activityId: string): Promise<ActivityPhoto[]> {
+    const detail = await db.allActivityDetails.get(activityId);
+    if (!detail || detail.externalId === undefined) {
+      throw new Error('Photos are only available for Strava activities');
+    }
+
+    const response = await stravaService.makeAuthenticatedRequest(
+      `/activities/${detail.externalId}/photos?size=${PHOTO_SIZE}&photo_sources=true`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch activity photos: ${response.statusText}`);
+    }
+    const remote: StravaPhoto[] = await response.json();
+    const primaryId: string | undefined = detail.photos?.primary?.unique_id;
+    const existing = new Map((await db.activityPhotos.where('activityId').equals(activityId).toArray()).map(p => [p.id, p]));
+
+    const photos: ActivityPhoto[] = [];
+    for (const item of remote) {
+      const url = item.urls?.[String(PHOTO_SIZE)] || Object.values(item.urls || {})[0];
+      if (!url) continue;
+      const cached = existing.get(item.unique_id);
+      const blob = cached?.blob ?? await this.download(url);
+      photos.push({
+        id: item.unique_id,
+        activityId,
+        url,
+        caption: item.caption || undefined,
+        location: item.location && item.location.length === 2 ? item.location : undefined,
+        createdAt: item.created_at,
+        isPrimary: item.unique_id === primaryId || (!primaryId && !!item.default_photo),
+        blob,
+        size: blob?.size,
+        fetchedAt: Date.now(),
+      });
+    }
+
+    await db.transaction('rw', db.activityPhotos, db.allActivityDetails, async () => {
+      // Photos removed on Strava go from the cache too
+      const keep = new Set(photos.map(p => p.id));
+      await db.activityPhotos.bulkDelete(Array.from(existing.keys()).filter(id => !keep.has(id)));
+      await db.activityPhotos.bulkPut(photos);
+      await db.allActivityDetails.update(activityId, { photosFetchedAt: Date.now() });
+    });
+    return this.getPhotos(activityId);
+  }
+
+  /**
+   * Photos with a displayable src: an object URL for cached images, else the
+   * Strava URL. Pass the result to releaseUrls when done with it.
+   */
+  async getPhotosWithSrc(activityId: string): Promise<PhotoWithSrc[]> {
+    const photos = await this.getPhotos(activityId);
+    return photos.map(photo => ({ photo, src: photo.blob ? URL.createObjectURL(photo.blob) : photo.url }));
+  }
+
+  releaseUrls(photos: PhotoWithSrc[]): void {
+    photos.forEach(p => {
+      if (p.photo.blob) URL.revokeObjectURL(p.src);
+    });
+  }
+
+  private async download(url: string): Promise<Blob | undefined> {
+    try {
+      const response = await fetch(url);
+      // An error page or expired link isn't worth keeping; retried later
+      if (!response.ok) return undefined;
+      return await response.blob();
+    } catch (error) {
+      // Usually CORS or offline; the URL still works in an <img>
+      console.warn(`Could not download photo ${url}:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const photoService = new PhotoService();
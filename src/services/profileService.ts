@@ -0,0 +1,110 @@
+import Dexie from 'dexie';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfile';
+const BASE_DB_NAME = 'AthleteInsightDB';
+
+// The first profile keeps the original database so existing data stays put
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Local athlete profiles. Each profile has its own IndexedDB database, so
+ * credentials, athlete settings and all activity data are kept apart.
+ * The profile list lives in localStorage because the database name must be
+ * known before Dexie opens.
+ */
+export class ProfileService {
+  getProfiles(): Profile[] {
+    try {
+      const raw = localStorage.getItem(PROFILES_KEY);
+      const profiles: Profile[] = raw ? JSON.parse(raw) : [];
+      if (!profiles.some(p => p.id === DEFAULT_PROFILE_ID)) {
+        profiles.unshift({ id: DEFAULT_PROFILE_ID, name: 'Default', createdAt: 0 });
+      }
+      return profiles;
+    } catch {
+      return [{ id: DEFAULT_PROFILE_ID, name: 'Default', createdAt: 0 }];
+    }
+  }
+
+  private saveProfiles(profiles: Profile[]): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  }
+
+  getActiveProfileId(): string {
+    try {
+      const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+      if (id && this.getProfiles().some(p => p.id === id)) {
+        return id;
+      }
+    } catch {
+      // localStorage may be disabled
+    }
+    return DEFAULT_PROFILE_ID;
+  }
+
+  getActiveProfile(): Profile {
+    const id = this.getActiveProfileId();
+    return this.getProfiles().find(p => p.id === id)!;
+  }
+
+  getDatabaseName(profileId: string = this.getActiveProfileId()): string {
+    return profileId === DEFAULT_PROFILE_ID ? BASE_DB_NAME : `${BASE_DB_NAME}-${profileId}`;
+  }
+
+  createProfile(name: string): Profile {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+    const profiles = this.getProfiles();
+    if (profiles.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+    const profile: Profile = { id: crypto.randomUUID(), name: trimmed, createdAt: Date.now() };
+    this.saveProfiles([...profiles, profile]);
+    return profile;
+  }
+
+  renameProfile(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+    const profiles = this.getProfiles();
+    if (profiles.some(p => p.id !== id && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+    this.saveProfiles(profiles.map(p => (p.id === id ? { ...p, name: trimmed } : p)));
+  }
+
+  /** Delete a profile and its database. The active profile can't be deleted. */
+  async deleteProfile(id: string): Promise<void> {
+    if (id === this.getActiveProfileId()) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+    if (id === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be deleted');
+    }
+    await Dexie.delete(this.getDatabaseName(id));
+    this.saveProfiles(this.getProfiles().filter(p => p.id !== id));
+  }
+
+  /**
+   * Switch profiles. Services hold on to the open database and cached
+   * settings, so the page is reloaded to start clean on the new one.
+   */
+  switchProfile(id: string): void {
+    if (id === this.getActiveProfileId()) return;
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    window.location.reload();
+  }
+}
+
+export const profileService = new ProfileService();
@@ -0,0 +1,183 @@
+import { db, Activity, StravaActivity, StravaActivityTotal, StravaAthleteStats } from './database';
+import { stravaService } from './stravaService';
+import { pickFields } from '../utils/objectUtils';
+
+const PAGE_SIZE = 200;
+
+// Summary fields refreshed from Strava when they differ locally
+const METADATA_FIELDS = [
+  'name', 'type', 'distance', 'moving_time', 'elapsed_time', 'total_elevation_gain',
+  'start_date', 'start_date_local', 'average_speed', 'max_speed', 'average_heartrate',
+  'max_heartrate', 'gear_id', 'commute', 'trainer', 'private', 'visibility', 'workout_type',
+] as const;
+
+type MetadataField = typeof METADATA_FIELDS[number];
+
+export interface RemoteChange {
+  activity: Activity;
+  fields: MetadataField[];
+  remote: Pick<StravaActivity, MetadataField>;
+}
+
+export interface ReconcileReport {
+  from: string;
+  to: string;
+  checked: number;
+  // Local Strava rows no longer on Strava, including ones archived before
+  deleted: Activity[];
+  changed: RemoteChange[];
+}
+
+export type TotalsSport = 'run' | 'ride' | 'swim';
+export type TotalsPeriod = 'ytd' | 'all';
+
+// Activity types Strava folds into each of its totals
+const SPORT_TYPES: Record<TotalsSport, string[]> = {
+  run: ['Run', 'TrailRun', 'VirtualRun'],
+  ride: ['Ride', 'VirtualRide', 'EBikeRide', 'MountainBikeRide', 'GravelRide', 'EMountainBikeRide', 'Velomobile', 'Handcycle'],
+  swim: ['Swim'],
+};
+
+export interface TotalsComparison {
+  period: TotalsPeriod;
+  sport: TotalsSport;
+  strava: StravaActivityTotal;
+  local: StravaActivityTotal;
+}
+
+export interface TotalsReport {
+  fetchedAt: number;
+  rows: TotalsComparison[];
+}
+
+const toEpoch = (date: string) => Math.floor(new Date(date).getTime() / 1000);
+
+const emptyTotal = (): StravaActivityTotal => ({ count: 0, distance: 0, moving_time: 0, elapsed_time: 0, elevation_gain: 0 });
+
+/**
+ * Compares local Strava activities with what Strava currently has for a date
+ * window. Nothing changes locally until one of the apply methods is called,
+ * apart from flagging rows that have gone missing and filling in local start
+ * times that archive imports couldn't know.
+ */
+export class ReconcileService {
+  /** `from`/`to` are YYYY-MM-DD dates, both inclusive */
+  async reconcile(from: string, to: string): Promise<ReconcileReport> {
+    // Whole local days, exclusive bounds for Strava's after/before
+    const after = toEpoch(`${from}T00:00:00`) - 1;
+    const before = toEpoch(`${to}T23:59:59`) + 1;
+
+    const remote = new Map<number, StravaActivity>();
+    for (let page = 1; ; page++) {
+      const activities = await stravaService.fetchActivitiesPage(page, PAGE_SIZE, { after, before });
+      activities.forEach(a => remote.set(a.id, a));
+      if (activities.length < PAGE_SIZE) break;
+    }
+
+    const local = await db.allActivities
+      .where('source')
+      .equals('strava')
+      .filter(a => a.externalId !== undefined && toEpoch(a.start_date) > after && toEpoch(a.start_date) < before)
+      .toArray();
+
+    const deleted: Activity[] = [];
+    const changed: RemoteChange[] = [];
+    const now = Date.now();
+
+    for (const activity of local) {
+      const match = remote.get(activity.externalId!);
+      if (!match) {
+        if (!activity.remoteDeletedAt) {
+          await db.allActivities.update(activity.id, { remoteDeletedAt: now });
+        }
+        deleted.push({ ...activity, remoteDeletedAt: activity.remoteDeletedAt || now });
+        continue;
+      }
+      if (activity.remoteDeletedAt) {
+        // Back on Strava (e.g. made visible again)
+        await db.allActivities.update(activity.id, { remoteDeletedAt: undefined, archivedAt: undefined });
+      }
+      if (activity.localTimeMissing) {
+        await stravaService.fillMissingLocalTime(activity.id, match);
+        activity.start_date_local = match.start_date_local;
+      }
+      const fields = METADATA_FIELDS.filter(f => match[f] !== undefined && match[f] !== activity[f]);
+      if (fields.length > 0) {
+        changed.push({ activity, fields, remote: pickFields(match, fields) });
+      }
+    }
+
+    return { from, to, checked: local.length, deleted, changed };
+  }
+
+  /**
+   * Copy changed Strava metadata onto the stored rows. Local overrides sit on
+   * top of these, so anything edited in the app still wins.
+   */
+  async applyChanges(changes: RemoteChange[]): Promise<number> {
+    await db.transaction('rw', db.allActivities, db.allActivityDetails, async () => {
+      for (const change of changes) {
+        await db.allActivities.update(change.activity.id, change.remote);
+        await db.allActivityDetails.update(change.activity.id, change.remote);
+      }
+    });
+    return changes.length;
+  }
+
+  /**
+   * Strava's YTD and all-time totals next to the same sums over the local
+   * Strava activities. Strava only counts activities visible to everyone, so
+   * private ones are left out of the local side too; any remaining gap means
+   * activities are missing or out of date locally.
+   */
+  async compareTotals(): Promise<TotalsReport> {
+    const stats: StravaAthleteStats | null = await stravaService.getAthleteStats(true);
+    if (!stats) {
+      throw new Error('Connect to Strava to compare totals');
+    }
+
+    const year = new Date().getFullYear();
+    const local: Record<TotalsPeriod, Record<TotalsSport, StravaActivityTotal>> = {
+      ytd: { run: emptyTotal(), ride: emptyTotal(), swim: emptyTotal() },
+      all: { run: emptyTotal(), ride: emptyTotal(), swim: emptyTotal() },
+    };
+    const activities = await db.allActivities
+      .filter(a => a.externalId !== undefined && !a.remoteDeletedAt && !a.private && (!a.visibility || a.visibility === 'everyone'))
+      .toArray();
+
+    for (const activity of activities) {
+      const sport = (Object.keys(SPORT_TYPES) as TotalsSport[]).find(s => SPORT_TYPES[s].includes(activity.type));
+      if (!sport) continue;
+      const periods: TotalsPeriod[] = new Date(activity.start_date_local).getFullYear() === year ? ['ytd', 'all'] : ['all'];
+      for (const period of periods) {
+        const total = local[period][sport];
+        total.count++;
+        total.distance += activity.distance;
+        total.moving_time += activity.moving_time;
+        total.elapsed_time += activity.elapsed_time;
+        total.elevation_gain += activity.total_elevation_gain;
+      }
+    }
+
+    const rows: TotalsComparison[] = [];
+    (['ytd', 'all'] as TotalsPeriod[]).forEach(period => {
+      (Object.keys(SPORT_TYPES) as TotalsSport[]).forEach(sport => {
+        rows.push({ period, sport, strava: stats[`${period}_${sport}_totals`], local: local[period][sport] });
+      });
+    });
+    return { fetchedAt: Date.now(), rows };
+  }
+
+  /** Keep activities deleted on Strava, but stop treating them as pending */
+  async archive(ids: string[]): Promise<void> {
+    const now = Date.now();
+    await db.allActivities.where('id').anyOf(ids).modify({ archivedAt: now });
+  }
+
+  /** Remove activities deleted on Strava along with their efforts and records */
+  async remove(ids: string[]): Promise<void> {
+    await db.deleteActivities(ids);
+  }
+}
+
+export const reconcileService = new ReconcileService();
@@ -0,0 +1,129 @@
+import { RateLimitError, RequestQueue } from './requestQueue';
+
+const response = (status: number, headers: Record<string, string> = {}) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  headers: { get: (name: string) => headers[name] ?? null },
+}) as unknown as Response;
+
+// Let queued promise callbacks run between timer advances
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+};
+
+const advance = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  await settle();
+};
+
+describe('RequestQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-01T10:05:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce(response(500))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValue(response(200));
+    const result = new RequestQueue().schedule(send);
+
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    await advance(999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    await advance(1999);
+    expect(send).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect((await result).status).toBe(200);
+  });
+
+  it('gives up after three retries', async () => {
+    const send = jest.fn().mockResolvedValue(response(500));
+    const result = new RequestQueue().schedule(send);
+
+    await settle();
+    await advance(1000);
+    await advance(2000);
+    await advance(4000);
+    expect(send).toHaveBeenCalledTimes(4);
+    expect((await result).status).toBe(500);
+  });
+
+  it('rethrows network errors once the retries are used up', async () => {
+    const send = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    // Caught straight away so the rejection isn't reported as unhandled
+    const failure = new RequestQueue().schedule(send).catch((error: Error) => error);
+
+    await settle();
+    await advance(1000);
+    await advance(2000);
+    await advance(4000);
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(await failure).toEqual(new TypeError('Failed to fetch'));
+  });
+
+  it('does not retry client errors', async () => {
+    const send = jest.fn().mockResolvedValue(response(404));
+    expect((await new RequestQueue().schedule(send)).status).toBe(404);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses until the 15 minute window resets after a 429', async () => {
+    const queue = new RequestQueue();
+    const send = jest.fn()
+      .mockResolvedValueOnce(response(429))
+      .mockResolvedValue(response(200));
+    const result = queue.schedule(send);
+
+    await settle();
+    expect(queue.getStatus().pausedUntil).toBe(Date.parse('2024-03-01T10:15:00Z'));
+    await advance(10 * 60 * 1000 - 1);
+    expect(send).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((await result).status).toBe(200);
+    expect(queue.getStatus().pausedUntil).toBeUndefined();
+  });
+
+  it('gives up when Strava keeps answering 429', async () => {
+    const queue = new RequestQueue();
+    const send = jest.fn().mockResolvedValue(response(429));
+    const failure = queue.schedule(send).catch((error: Error) => error);
+
+    await settle();
+    for (let i = 0; i < 3; i++) await advance(15 * 60 * 1000);
+    expect(send).toHaveBeenCalledTimes(4);
+    const error = await failure;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAt).toBe(Date.parse('2024-03-01T11:00:00Z'));
+  });
+
+  it('rejects instead of waiting for the daily reset', async () => {
+    const queue = new RequestQueue();
+    const full = response(200, { 'X-RateLimit-Limit': '100,1000', 'X-RateLimit-Usage': '40,1000' });
+    const send = jest.fn().mockResolvedValue(full);
+
+    await queue.schedule(send);
+    expect(queue.getStatus()).toMatchObject({ shortUsage: 40, dailyUsage: 1000 });
+
+    const error = await queue.schedule(send).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAt).toBe(Date.parse('2024-03-02T00:00:00Z'));
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.getStatus().pausedUntil).toBe(Date.parse('2024-03-02T00:00:00Z'));
+
+    // The day rolls over and requests go out again
+    jest.setSystemTime(new Date('2024-03-02T00:00:01Z'));
+    expect((await queue.schedule(send)).status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,175 @@
+export interface RateLimitStatus {
+  // Strava reports two windows: 15 minutes and the day (UTC)
+  shortLimit?: number;
+  shortUsage?: number;
+  dailyLimit?: number;
+  dailyUsage?: number;
+  updatedAt?: number;
+  pausedUntil?: number;
+}
+
+const SHORT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+/**
+ * The queue won't wait this one out: Strava kept answering 429, or the pause
+ * runs past the 15 minute window (usually the daily limit)
+ */
+export class RateLimitError extends Error {
+  constructor(readonly retryAt: number) {
+    super(`Strava rate limit reached - try again after ${new Date(retryAt).toLocaleTimeString()}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parsePair = (header: string | null): [number, number] | null => {
+  if (!header) return null;
+  const [short, daily] = header.split(',').map(v => parseInt(v.trim(), 10));
+  return Number.isFinite(short) && Number.isFinite(daily) ? [short, daily] : null;
+};
+
+// The 15 minute window resets on the quarter hour, the daily one at midnight UTC
+const nextShortReset = (from: number) => Math.floor(from / SHORT_WINDOW_MS) * SHORT_WINDOW_MS + SHORT_WINDOW_MS;
+const nextDailyReset = (from: number) => {
+  const d = new Date(from);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+};
+
+/**
+ * Sends Strava requests one at a time, keeping track of the quota reported in
+ * the X-RateLimit-* headers. When the 15 minute window is used up (or Strava
+ * answers 429) the queue pauses until it resets; longer waits, and 429s that
+ * keep coming, reject with a RateLimitError instead. Network errors and 5xx
+ * responses are retried with exponential backoff.
+ */
+export class RequestQueue {
+  private status: RateLimitStatus = {};
+  private listeners = new Set<(status: RateLimitStatus) => void>();
+  private tail: Promise<unknown> = Promise.resolve();
+
+  getStatus(): RateLimitStatus {
+    return this.currentStatus();
+  }
+
+  /** Listen for quota changes; returns an unsubscribe function */
+  subscribe(listener: (status: RateLimitStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a request. `send` is called for every attempt, so it should build
+   * a fresh request (and token) each time.
+   */
+  schedule(send: () => Promise<Response>): Promise<Response> {
+    const run = this.tail.then(() => this.execute(send));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async execute(send: () => Promise<Response>): Promise<Response> {
+    let attempt = 0;
+    let rateLimited = 0;
+    for (;;) {
+      await this.waitForQuota();
+
+      let response: Response;
+      try {
+        response = await send();
+      } catch (error) {
+        if (attempt >= MAX_RETRIES) throw error;
+        await sleep(BASE_BACKOFF_MS * 2 ** attempt++);
+        continue;
+      }
+
+      this.readHeaders(response);
+
+      if (response.status === 429) {
+        // Over the limit regardless of what the headers said; wait it out
+        this.pause(this.resetTime());
+        if (rateLimited++ >= MAX_RETRIES) throw new RateLimitError(this.status.pausedUntil!);
+        continue;
+      }
+      if (response.status >= 500 && attempt < MAX_RETRIES) {
+        await sleep(BASE_BACKOFF_MS * 2 ** attempt++);
+        continue;
+      }
+      return response;
+    }
+  }
+
+  private readHeaders(response: Response): void {
+    const limit = parsePair(response.headers.get('X-RateLimit-Limit'));
+    const usage = parsePair(response.headers.get('X-RateLimit-Usage'));
+    if (!limit || !usage) return;
+    this.status = {
+      ...this.status,
+      shortLimit: limit[0],
+      dailyLimit: limit[1],
+      shortUsage: usage[0],
+      dailyUsage: usage[1],
+      updatedAt: Date.now(),
+    };
+    this.notify();
+  }
+
+  /** Status with usage zeroed for any window that has reset since the last response */
+  private currentStatus(): RateLimitStatus {
+    const { updatedAt } = this.status;
+    if (!updatedAt) return { ...this.status };
+    const now = Date.now();
+    return {
+      ...this.status,
+      shortUsage: now >= nextShortReset(updatedAt) ? 0 : this.status.shortUsage,
+      dailyUsage: now >= nextDailyReset(updatedAt) ? 0 : this.status.dailyUsage,
+    };
+  }
+
+  /** When the exhausted window (daily first) frees up again */
+  private resetTime(): number {
+    const status = this.currentStatus();
+    const now = Date.now();
+    if (status.dailyLimit !== undefined && (status.dailyUsage ?? 0) >= status.dailyLimit) {
+      return nextDailyReset(now);
+    }
+    return nextShortReset(now);
+  }
+
+  private async waitForQuota(): Promise<void> {
+    const status = this.currentStatus();
+    const shortFull = status.shortLimit !== undefined && (status.shortUsage ?? 0) >= status.shortLimit;
+    const dailyFull = status.dailyLimit !== undefined && (status.dailyUsage ?? 0) >= status.dailyLimit;
+    if (shortFull || dailyFull) {
+      this.pause(this.resetTime());
+    }
+
+    const { pausedUntil } = this.status;
+    if (pausedUntil && pausedUntil > Date.now()) {
+      // Callers can report a long wait; nobody should sit on a request all day
+      if (pausedUntil > nextShortReset(Date.now())) throw new RateLimitError(pausedUntil);
+      await sleep(pausedUntil - Date.now());
+    }
+    if (this.status.pausedUntil) {
+      this.status = { ...this.status, pausedUntil: undefined };
+      this.notify();
+    }
+  }
+
+  private pause(until: number): void {
+    this.status = { ...this.status, pausedUntil: until };
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const stravaRequestQueue = new RequestQueue();
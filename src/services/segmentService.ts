@@ -1,10 +1,7 @@
-import { db, Segment, SegmentEffort, ActivityDetail } from './database';
-import { matchActivity } from './segmentDetector';
+import { db, Activity, Segment, SegmentEffort, ActivityDetail, StravaSegmentEffort } from './database';
+import { matchActivity, computeSegmentPolyline, computeSegmentStats } from './segmentDetector';
 import { stravaService } from './stravaService';
 
-const BATCH_SIZE = 10;
-const BATCH_DELAY_MS = 50;
-
 export class SegmentService {
   async createSegment(segment: Omit<Segment, 'id' | 'createdAt'>): Promise<number> {
     const id = await db.segments.add({
@@ -68,10 +65,7 @@ export class SegmentService {
 
     let detail: ActivityDetail;
     try {
-      const activity = await db.allActivities.get(activityId);
-      const numericId = activity?.externalId;
-      if (numericId === undefined) return [];
-      detail = await stravaService.getActivityDetail(numericId);
+      detail = await stravaService.getActivityDetail(activityId);
     } catch {
       return [];
     }
@@ -96,11 +90,53 @@ export class SegmentService {
     return newEfforts;
   }
 
+  /** Local segments already created from these Strava segment ids */
+  async getSegmentsForStravaIds(stravaSegmentIds: number[]): Promise<Map<number, Segment>> {
+    const ids = new Set(stravaSegmentIds);
+    const segments = await db.segments.filter(s => s.stravaSegmentId !== undefined && ids.has(s.stravaSegmentId)).toArray();
+    return new Map(segments.map(s => [s.stravaSegmentId!, s]));
+  }
+
+  /**
+   * Create a local segment from the part of the activity a Strava segment
+   * effort covers, then match it against all stored activities - including
+   * device imports Strava never saw.
+   */
+  async trackStravaEffort(activity: ActivityDetail, effort: StravaSegmentEffort): Promise<{ segmentId: number; efforts: SegmentEffort[] }> {
+    const latlng = activity.streams?.latlng;
+    if (!latlng || effort.start_index === undefined || effort.end_index === undefined
+        || effort.start_index >= latlng.length || effort.end_index >= latlng.length) {
+      throw new Error('This activity has no GPS data for the segment effort');
+    }
+
+    const stravaSegmentId = effort.segment?.id;
+    if (stravaSegmentId !== undefined) {
+      const existing = (await this.getSegmentsForStravaIds([stravaSegmentId])).get(stravaSegmentId);
+      if (existing) {
+        return { segmentId: existing.id!, efforts: await this.scanAllActivitiesForSegment(existing.id!) };
+      }
+    }
+
+    const stats = computeSegmentStats(latlng, activity.streams?.altitude, effort.start_index, effort.end_index);
+    const segmentId = await this.createSegment({
+      name: effort.segment?.name || effort.name,
+      activityId: activity.id,
+      startIndex: effort.start_index,
+      endIndex: effort.end_index,
+      distanceKm: stats.distanceKm,
+      elevationGain: stats.elevationGain,
+      polyline: computeSegmentPolyline(latlng, effort.start_index, effort.end_index),
+      createdBy: 'strava-effort',
+      stravaSegmentId,
+    });
+    return { segmentId, efforts: await this.scanAllActivitiesForSegment(segmentId) };
+  }
+
   async scanAllActivitiesForSegment(segmentId: number): Promise<SegmentEffort[]> {
     const segment = await this.getSegment(segmentId);
     if (!segment) return [];
 
-    const activities = await db.allActivityDetails.toArray();
+    const activities = await db.getAllActivityDetails();
     const existingEfforts = await this.getEffortsForSegment(segmentId);
     const existingActivityIds = new Set(existingEfforts.map(e => e.activityId));
 
@@ -121,17 +157,19 @@ export class SegmentService {
     return newEfforts;
   }
 
-  async rescanAll(
-    options?: { direction?: 'newest' | 'oldest'; limit?: number },
-    callback?: (progress: number, total: number) => void
-  ): Promise<void> {
+  /**
+   * Activities with local streams to rescan, in the requested order.
+   * Activities whose streams were pruned are left out so their efforts stay;
+   * ones without GPS are skipped by rescanActivity.
+   */
+  async getRescanCandidates(options?: { direction?: 'newest' | 'oldest'; limit?: number }): Promise<string[]> {
     const segments = await this.getAllSegments();
-    if (segments.length === 0) return;
+    if (segments.length === 0) return [];
 
-    let activities = await db.allActivityDetails.toArray();
-    let activitiesWithStreams = activities.filter(
-      a => a.streams?.latlng && a.streams?.time
-    );
+    // Keys only, so no streams are read or decoded here
+    const streamIds = await db.activityStreams.toCollection().primaryKeys();
+    let activitiesWithStreams = (await db.allActivities.bulkGet(streamIds))
+      .filter((a): a is Activity => a !== undefined);
 
     if (options?.direction === 'newest') {
       activitiesWithStreams.sort((a, b) => new Date(b.start_date_local).getTime() - new Date(a.start_date_local).getTime());
@@ -143,31 +181,26 @@ export class SegmentService {
       activitiesWithStreams = activitiesWithStreams.slice(0, options.limit);
     }
 
-    const total = activitiesWithStreams.length;
-    let completed = 0;
-
-    await db.segmentEfforts.clear();
-
-    for (let ai = 0; ai < activitiesWithStreams.length; ai += BATCH_SIZE) {
-      const batch = activitiesWithStreams.slice(ai, ai + BATCH_SIZE);
-      for (const segment of segments) {
-        const promises = batch.map(activity => {
-          const effort = matchActivity(segment, activity);
-          if (effort) {
-            return db.segmentEfforts.add(effort);
-          }
-          return Promise.resolve();
-        });
-        await Promise.all(promises);
-      }
+    return activitiesWithStreams.map(a => a.id);
+  }
 
-      completed += batch.length;
-      callback?.(completed, total);
+  /** Replace an activity's efforts with a fresh match against every segment */
+  async rescanActivity(activityId: string): Promise<SegmentEffort[]> {
+    const detail = await db.getActivityDetail(activityId);
+    if (!detail?.streams?.latlng || !detail.streams?.time) return [];
 
-      if (BATCH_DELAY_MS > 0) {
-        await new Promise(r => setTimeout(r, BATCH_DELAY_MS));
+    const segments = await this.getAllSegments();
+    const efforts = segments
+      .map(segment => matchActivity(segment, detail))
+      .filter((effort): effort is SegmentEffort => effort !== null);
+
+    await db.transaction('rw', db.segmentEfforts, async () => {
+      await db.segmentEfforts.where('activityId').equals(activityId).delete();
+      if (efforts.length > 0) {
+        await db.segmentEfforts.bulkAdd(efforts);
       }
-    }
+    });
+    return efforts;
   }
 }
 
@@ -0,0 +1,100 @@
+import { db } from './database';
+
+export interface StorageQuota {
+  supported: boolean;
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export interface StreamPrunePreview {
+  cutoffDate: string;
+  activities: number;
+  encodedBytes: number;
+  rawBytes: number;
+  oldestDate?: string;
+  newestDate?: string;
+}
+
+export class StorageService {
+  async getQuota(): Promise<StorageQuota> {
+    if (!navigator.storage?.estimate) {
+      return { supported: false, usage: 0, quota: 0, persisted: false };
+    }
+
+    const estimate = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return {
+      supported: true,
+      usage: estimate.usage || 0,
+      quota: estimate.quota || 0,
+      persisted,
+    };
+  }
+
+  /**
+   * Ask the browser not to evict our data under storage pressure.
+   * Browsers may grant or deny this silently based on engagement heuristics.
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    if (navigator.storage.persisted && await navigator.storage.persisted()) return true;
+    return await navigator.storage.persist();
+  }
+
+  private getCutoffDate(olderThanYears: number): Date {
+    const cutoff = new Date();
+    cutoff.setFullYear(cutoff.getFullYear() - olderThanYears);
+    return cutoff;
+  }
+
+  private async getPrunableIds(olderThanYears: number): Promise<string[]> {
+    const cutoff = this.getCutoffDate(olderThanYears).toISOString();
+    const streamIds = new Set(await db.activityStreams.toCollection().primaryKeys());
+    const oldActivities = await db.allActivities
+      .where('start_date_local')
+      .below(cutoff)
+      .toArray();
+    return oldActivities.filter(a => streamIds.has(a.id)).map(a => a.id);
+  }
+
+  async previewStreamPrune(olderThanYears: number): Promise<StreamPrunePreview> {
+    const ids = await this.getPrunableIds(olderThanYears);
+    const records = await db.activityStreams.bulkGet(ids);
+    const activities = await db.allActivities.bulkGet(ids);
+    const dates = activities
+      .map(a => a?.start_date_local)
+      .filter((d): d is string => !!d)
+      .sort();
+
+    return {
+      cutoffDate: this.getCutoffDate(olderThanYears).toISOString(),
+      activities: ids.length,
+      encodedBytes: records.reduce((sum, r) => sum + (r?.encodedBytes || 0), 0),
+      rawBytes: records.reduce((sum, r) => sum + (r?.rawBytes || 0), 0),
+      oldestDate: dates[0],
+      newestDate: dates[dates.length - 1],
+    };
+  }
+
+  /**
+   * Drop raw streams for activities older than the given age.
+   * Distance PRs, segment efforts and route assignments are left untouched,
+   * and pruned activities are flagged so they are not re-downloaded.
+   */
+  async pruneStreams(olderThanYears: number): Promise<number> {
+    const ids = await this.getPrunableIds(olderThanYears);
+    const prunedAt = Date.now();
+
+    await db.transaction('rw', db.allActivityDetails, db.activityStreams, async () => {
+      await db.activityStreams.bulkDelete(ids);
+      for (const id of ids) {
+        await db.allActivityDetails.update(id, { streamsPrunedAt: prunedAt });
+      }
+    });
+
+    return ids.length;
+  }
+}
+
+export const storageService = new StorageService();
@@ -0,0 +1,50 @@
+import { parseArchiveDate, parseCsv, toRows } from './stravaArchiveService';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes and embedded newlines', () => {
+    const text = 'Activity ID,Activity Name,Activity Description\n'
+      + '123,"Run, then coffee","She said ""go""\nand I went"\n'
+      + '124,Plain,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['Activity ID', 'Activity Name', 'Activity Description'],
+      ['123', 'Run, then coffee', 'She said "go"\nand I went'],
+      ['124', 'Plain', ''],
+    ]);
+  });
+
+  it('accepts CRLF line endings and a missing final newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+});
+
+describe('toRows', () => {
+  it('lets the last of a repeated header win and drops blank rows', () => {
+    const rows = toRows([
+      ['Activity ID', 'Distance', 'Elapsed Time', 'Distance'],
+      ['123', '5.01', '1500', '5010.2'],
+      ['', '', '', ''],
+      ['124', '3.2', '', '3200'],
+    ]);
+
+    expect(rows).toEqual([
+      { 'Activity ID': '123', Distance: '5010.2', 'Elapsed Time': '1500' },
+      { 'Activity ID': '124', Distance: '3200' },
+    ]);
+  });
+});
+
+describe('parseArchiveDate', () => {
+  it('reads the export format as UTC', () => {
+    expect(parseArchiveDate('Feb 23, 2019, 3:44:12 PM')?.getTime()).toBe(Date.UTC(2019, 1, 23, 15, 44, 12));
+    expect(parseArchiveDate('Feb 23, 2019, 12:05:00 AM')?.getTime()).toBe(Date.UTC(2019, 1, 23, 0, 5, 0));
+    expect(parseArchiveDate('Feb 23, 2019, 12:05:00 PM')?.getTime()).toBe(Date.UTC(2019, 1, 23, 12, 5, 0));
+    expect(parseArchiveDate('September 3, 2021 18:00:00')?.getTime()).toBe(Date.UTC(2021, 8, 3, 18, 0, 0));
+  });
+
+  it('falls back to ISO dates and rejects anything else', () => {
+    expect(parseArchiveDate('2020-07-04T06:30:00Z')?.toISOString()).toBe('2020-07-04T06:30:00.000Z');
+    expect(parseArchiveDate('not a date')).toBeUndefined();
+    expect(parseArchiveDate('')).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+import { gunzipSync } from 'fflate';
+import { db, Activity, ActivityDetail, StreamData } from './database';
+import { fitImportService, ParsedFitActivity, isSupportedFile } from './fitImportService';
+import { stravaService } from './stravaService';
+import { listZipEntries, readZipEntry, ZipEntry } from './zipReader';
+
+export interface ArchiveImportProgress {
+  current: number;
+  total: number;
+  name?: string;
+}
+
+export interface ArchiveImportResult {
+  total: number;
+  imported: number;
+  withStreams: number;
+  skipped: number; // already in allActivities
+  failed: { name: string; error: string }[];
+}
+
+type CsvRow = Record<string, string>;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * activities.csv repeats some headers (Distance in km, then in metres); the
+ * later columns hold the raw SI values, so the last occurrence wins.
+ */
+export function toRows(table: string[][]): CsvRow[] {
+  const [header, ...rows] = table;
+  const columns = new Map<string, number>();
+  header.forEach((name, i) => columns.set(name.trim(), i));
+  return rows
+    .filter(r => r.some(v => v.trim() !== ''))
+    .map(r => {
+      const row: CsvRow = {};
+      columns.forEach((i, name) => {
+        if (r[i] !== undefined && r[i] !== '') row[name] = r[i];
+      });
+      return row;
+    });
+}
+
+/** "Feb 23, 2019, 3:44:12 PM" in UTC */
+export function parseArchiveDate(value: string): Date | undefined {
+  const match = value.match(/^(\w{3})\w* (\d{1,2}), (\d{4}),? (\d{1,2}):(\d{2}):(\d{2})\s*(AM|PM)?$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].toLowerCase());
+    const meridiem = match[7]?.toUpperCase();
+    let hours = Number(match[4]);
+    if (meridiem) hours = (hours % 12) + (meridiem === 'PM' ? 12 : 0);
+    if (month >= 0) {
+      return new Date(Date.UTC(Number(match[3]), month, Number(match[2]), hours, Number(match[5]), Number(match[6])));
+    }
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+const toNumber = (value?: string) => {
+  const n = value !== undefined ? parseFloat(value) : NaN;
+  return isNaN(n) ? undefined : n;
+};
+
+const toBoolean = (value?: string) => value === 'true' || toNumber(value) === 1;
+
+/**
+ * Imports Strava's "Download your data" archive: activities.csv rows become
+ * Strava activities without spending API requests, and FIT, GPX or TCX
+ * files in the archive (plain or gzipped) supply their streams.
+ */
+export class StravaArchiveService {
+  async importArchive(file: File, onProgress?: (progress: ArchiveImportProgress) => void): Promise<ArchiveImportResult> {
+    const entries = await listZipEntries(file);
+    const byName = new Map(entries.map(e => [e.name, e]));
+
+    const csvEntry = entries.find(e => e.name === 'activities.csv' || e.name.endsWith('/activities.csv'));
+    if (!csvEntry) {
+      throw new Error('activities.csv not found - is this a Strava "Download your data" archive?');
+    }
+    // File paths in the CSV are relative to the folder holding it
+    const root = csvEntry.name.slice(0, csvEntry.name.length - 'activities.csv'.length);
+    const rows = toRows(parseCsv(new TextDecoder().decode(await readZipEntry(file, csvEntry))));
+
+    const gearIds = new Map((await db.gear.toArray()).map(g => [g.name, g.id]));
+    const result: ArchiveImportResult = { total: rows.length, imported: 0, withStreams: 0, skipped: 0, failed: [] };
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const name = row['Activity Name'] || `Activity ${row['Activity ID']}`;
+      onProgress?.({ current: i + 1, total: rows.length, name });
+
+      try {
+        const externalId = toNumber(row['Activity ID']);
+        if (externalId === undefined) {
+          throw new Error('Missing activity ID');
+        }
+        if (await db.allActivities.where('externalId').equals(externalId).count() > 0) {
+          result.skipped++;
+          continue;
+        }
+
+        const fileEntry = row['Filename'] ? byName.get(root + row['Filename']) : undefined;
+        const parsed = fileEntry ? await this.parseActivityFile(file, fileEntry) : undefined;
+        const detail = this.mapRow(row, externalId, await stravaService.ensureUuidForStravaId(externalId), gearIds, parsed);
+        if (!detail) {
+          throw new Error('Missing or unreadable activity date');
+        }
+
+        // Without streams the detail is fetched from Strava when first opened
+        const { description, calories, device_name, streams, ...activity } = detail;
+        await db.transaction('rw', [db.allActivities, db.allActivityDetails, db.activityStreams], async () => {
+          await db.allActivities.add(activity);
+          await db.putActivityDetail(detail);
+        });
+        result.imported++;
+        if (streams) result.withStreams++;
+      } catch (error) {
+        console.warn(`Archive import failed for "${name}":`, error);
+        result.failed.push({ name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /** Streams from the activity's original file; undefined for formats we can't read */
+  private async parseActivityFile(file: File, entry: ZipEntry): Promise<ParsedFitActivity | undefined> {
+    let fileName = entry.name.split('/').pop() || entry.name;
+    let data = await readZipEntry(file, entry);
+    if (fileName.toLowerCase().endsWith('.gz')) {
+      data = gunzipSync(data);
+      fileName = fileName.slice(0, -3);
+    }
+    if (!isSupportedFile(fileName)) {
+      return undefined;
+    }
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    try {
+      return await fitImportService.parseFileData(buffer, fileName);
+    } catch (error) {
+      // Keep the activity from the CSV even if its file is damaged
+      console.warn(`Could not read ${entry.name}:`, error);
+      return undefined;
+    }
+  }
+
+  private mapRow(
+    row: CsvRow,
+    externalId: number,
+    id: string,
+    gearIds: Map<string, string>,
+    parsed?: ParsedFitActivity
+  ): ActivityDetail | undefined {
+    const startDate = row['Activity Date'] ? parseArchiveDate(row['Activity Date']) : undefined;
+    const start = startDate?.toISOString() || parsed?.summary.start_date;
+    if (!start) return undefined;
+
+    const fromFile: Partial<Activity> = parsed?.summary || {};
+    // The archive only has UTC times; FIT files also record the local offset
+    const utcOffset = fromFile.utc_offset;
+    const distance = toNumber(row['Distance']) ?? fromFile.distance ?? 0;
+    const movingTime = toNumber(row['Moving Time']) ?? fromFile.moving_time ?? 0;
+    const streams: StreamData | undefined = parsed?.details.streams;
+    const hasStreams = !!streams && Object.values(streams).some(s => Array.isArray(s) && s.length > 0);
+
+    const activity: Activity = {
+      id,
+      source: 'strava',
+      externalId,
+      name: row['Activity Name'] || fromFile.name || 'Activity',
+      type: row['Activity Type'] || fromFile.type || 'Other',
+      distance,
+      moving_time: Math.round(movingTime),
+      elapsed_time: Math.round(toNumber(row['Elapsed Time']) ?? fromFile.elapsed_time ?? movingTime),
+      total_elevation_gain: toNumber(row['Elevation Gain']) ?? fromFile.total_elevation_gain ?? 0,
+      start_date: start,
+      start_date_local: utcOffset !== undefined ? new Date(Date.parse(start) + utcOffset * 1000).toISOString() : start,
+      utc_offset: utcOffset,
+      localTimeMissing: utcOffset === undefined ? true : undefined,
+      average_speed: toNumber(row['Average Speed']) ?? (movingTime > 0 ? distance / movingTime : 0),
+      max_speed: toNumber(row['Max Speed']) ?? fromFile.max_speed ?? 0,
+      average_heartrate: toNumber(row['Average Heart Rate']) ?? fromFile.average_heartrate,
+      max_heartrate: toNumber(row['Max Heart Rate']) ?? fromFile.max_heartrate,
+      average_cadence: toNumber(row['Average Cadence']) ?? fromFile.average_cadence,
+      average_watts: toNumber(row['Average Watts']) ?? fromFile.average_watts,
+      max_watts: toNumber(row['Max Watts']) ?? fromFile.max_watts,
+      has_heartrate: toNumber(row['Average Heart Rate']) !== undefined || !!fromFile.has_heartrate,
+      elev_high: toNumber(row['Elevation High']) ?? fromFile.elev_high,
+      elev_low: toNumber(row['Elevation Low']) ?? fromFile.elev_low,
+      start_latlng: fromFile.start_latlng,
+      end_latlng: fromFile.end_latlng,
+      commute: toBoolean(row['Commute']),
+      gear_id: row['Activity Gear'] ? gearIds.get(row['Activity Gear']) : undefined,
+      kudos_count: 0,
+      comment_count: 0,
+      athlete_count: 1,
+      photo_count: 0,
+    };
+
+    return {
+      ...activity,
+      description: row['Activity Description'],
+      calories: toNumber(row['Calories']),
+      device_name: parsed?.details.device_name,
+      streams: hasStreams ? streams : undefined,
+    };
+  }
+}
+
+export const stravaArchiveService = new StravaArchiveService();
@@ -0,0 +1,131 @@
+import { db, PendingStravaEdit, StravaActivityEdit } from './database';
+import { stravaService } from './stravaService';
+import { pickFields } from '../utils/objectUtils';
+
+// fetch rejects with a TypeError when the network is unreachable
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+/**
+ * Sends activity edits to Strava. Edits made offline are stored and sent
+ * once the browser is back online; the local copy only changes after
+ * Strava has accepted an edit.
+ */
+export class StravaEditService {
+  private listeners = new Set<(pending: PendingStravaEdit[]) => void>();
+  private flushing: Promise<void> | null = null;
+  private started = false;
+
+  async getPending(): Promise<PendingStravaEdit[]> {
+    return await db.pendingStravaEdits.toArray();
+  }
+
+  /** Listen for changes to the pending edits; returns an unsubscribe function */
+  subscribe(listener: (pending: PendingStravaEdit[]) => void): () => void {
+    this.listeners.add(listener);
+    this.getPending().then(listener).catch(err => console.error('Failed to load pending Strava edits:', err));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    const pending = await this.getPending();
+    this.listeners.forEach(listener => listener(pending));
+  }
+
+  /** Send pending edits now and whenever the browser comes back online */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => {
+      this.flush().catch(err => console.error('Failed to send pending Strava edits:', err));
+    });
+    if (navigator.onLine) {
+      this.flush().catch(err => console.error('Failed to send pending Strava edits:', err));
+    }
+  }
+
+  /**
+   * Send an edit, or queue it when offline. Any edit still waiting for the
+   * same activity is merged in, newest values winning.
+   */
+  async save(activityId: string, changes: StravaActivityEdit): Promise<'sent' | 'queued'> {
+    const activity = await db.allActivities.get(activityId);
+    if (activity?.externalId === undefined) {
+      throw new Error('This activity is not on Strava');
+    }
+
+    const existing = await db.pendingStravaEdits.get(activityId);
+    const merged = { ...existing?.changes, ...changes };
+
+    if (navigator.onLine) {
+      try {
+        await this.send(activityId, activity.externalId, merged);
+        await db.pendingStravaEdits.delete(activityId);
+        await this.notify();
+        return 'sent';
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    const now = Date.now();
+    await db.pendingStravaEdits.put({
+      id: activityId,
+      externalId: activity.externalId,
+      changes: merged,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+    await this.notify();
+    return 'queued';
+  }
+
+  async discard(activityId: string): Promise<void> {
+    await db.pendingStravaEdits.delete(activityId);
+    await this.notify();
+  }
+
+  /** Try every pending edit; stops early if the network is still down */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendPending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async sendPending(): Promise<void> {
+    for (const edit of await this.getPending()) {
+      try {
+        await this.send(edit.id, edit.externalId, edit.changes);
+        await db.pendingStravaEdits.delete(edit.id);
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        // Kept so the error shows on the activity until it's retried or discarded
+        console.warn(`Strava edit failed for activity ${edit.id}:`, error);
+        await db.pendingStravaEdits.update(edit.id, { lastError: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    await this.notify();
+  }
+
+  private async send(activityId: string, externalId: number, changes: StravaActivityEdit): Promise<void> {
+    const updated = await stravaService.updateActivity(externalId, changes);
+
+    // Store what Strava now has for the edited fields
+    const values: StravaActivityEdit = pickFields(updated, Object.keys(changes) as (keyof StravaActivityEdit)[]);
+    // Strava sends null for cleared fields such as removed gear
+    (Object.keys(values) as (keyof StravaActivityEdit)[]).forEach(key => {
+      if (values[key] === null) values[key] = undefined;
+    });
+    const { description: _description, ...summary } = values;
+    await db.transaction('rw', db.allActivities, db.allActivityDetails, async () => {
+      await db.allActivities.update(activityId, summary);
+      await db.allActivityDetails.update(activityId, values);
+    });
+  }
+}
+
+export const stravaEditService = new StravaEditService();
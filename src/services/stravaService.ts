@@ -1,13 +1,71 @@
-import { db, StravaSettings, StravaActivity, ActivityDetail, StreamData, StravaAthlete, ActivitySegment, Activity } from './database';
+import { db, StravaSettings, StravaActivity, Activity, ActivityDetail, StreamData, StravaAthlete, ActivitySegment, ActivityView, ImportMode, ImportConflictReport, StravaActivityEdit, ExportOptions, StravaActivityZone, StravaAthleteStats } from './database';
 import { segmentService } from './segmentService';
+import { activityOverrideService } from './activityOverrideService';
+import { integrityService, IntegrityReport } from './integrityService';
+import { stravaRequestQueue, RateLimitError } from './requestQueue';
 
-const STRAVA_BASE_URL = 'https://www.strava.com/api/v3';
-const STRAVA_AUTH_URL = 'https://www.strava.com/oauth/authorize';
-const STRAVA_TOKEN_URL = 'https://www.strava.com/oauth/token';
+/** Sends an HTTP request; defaults to the global fetch */
+export type StravaTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface StravaEndpoints {
+  apiBaseUrl: string;
+  authUrl: string;
+  tokenUrl: string;
+}
+
+export interface StravaServiceOptions {
+  endpoints?: Partial<StravaEndpoints>;
+  transport?: StravaTransport;
+}
+
+// REACT_APP_STRAVA_ORIGIN points the app at another server, e.g. the mock in mock-strava/
+const STRAVA_ORIGIN = process.env.REACT_APP_STRAVA_ORIGIN || 'https://www.strava.com';
+
+export const DEFAULT_STRAVA_ENDPOINTS: StravaEndpoints = {
+  apiBaseUrl: `${STRAVA_ORIGIN}/api/v3`,
+  authUrl: `${STRAVA_ORIGIN}/oauth/authorize`,
+  tokenUrl: `${STRAVA_ORIGIN}/oauth/token`,
+};
+
+const fetchTransport: StravaTransport = (url, init) => fetch(url, init);
+
+export const REQUIRED_SCOPES = ['read', 'activity:read_all', 'activity:write'];
+
+export type AuthState = 'disconnected' | 'connected' | 'refreshing' | 'reauthRequired';
+
+export interface AuthStatus {
+  state: AuthState;
+  // Required scopes the user didn't grant; reconnecting asks for them again
+  missingScopes: string[];
+  reason?: string;
+}
+
+const REFRESH_LOCK = 'strava-token-refresh';
+const AUTH_CHANNEL = 'strava-auth';
 
 export class StravaService {
   private static instance: StravaService;
   private settings: StravaSettings | null = null;
+  private endpoints: StravaEndpoints;
+  private transport: StravaTransport;
+  private authStatus: AuthStatus = { state: 'disconnected', missingScopes: [] };
+  private authListeners = new Set<(status: AuthStatus) => void>();
+  private refreshing: Promise<string> | null = null;
+  private authChannel?: BroadcastChannel;
+
+  constructor(options: StravaServiceOptions = {}) {
+    this.endpoints = { ...DEFAULT_STRAVA_ENDPOINTS, ...options.endpoints };
+    this.transport = options.transport || fetchTransport;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      // Another tab logged in, refreshed or lost its tokens: our cached copy is stale
+      this.authChannel = new BroadcastChannel(AUTH_CHANNEL);
+      this.authChannel.onmessage = () => {
+        this.settings = null;
+        this.updateAuthStatus(false).catch(err => console.error('Failed to update auth status:', err));
+      };
+    }
+  }
 
   static getInstance(): StravaService {
     if (!StravaService.instance) {
@@ -16,6 +74,20 @@ export class StravaService {
     return StravaService.instance;
   }
 
+  /** Swap the server or transport, e.g. for a mock in development or tests */
+  configure(options: StravaServiceOptions): void {
+    if (options.endpoints) {
+      this.endpoints = { ...this.endpoints, ...options.endpoints };
+    }
+    if (options.transport) {
+      this.transport = options.transport;
+    }
+  }
+
+  getEndpoints(): StravaEndpoints {
+    return { ...this.endpoints };
+  }
+
   async getSettings(): Promise<StravaSettings | null> {
     if (!this.settings) {
       const settings = await db.settings.toCollection().first();
@@ -40,25 +112,42 @@ export class StravaService {
       client_id: clientId,
       redirect_uri: redirectUri,
       response_type: 'code',
-      scope: 'read,activity:read_all',
+      scope: REQUIRED_SCOPES.join(','),
       approval_prompt: 'force'
     });
-    return `${STRAVA_AUTH_URL}?${params.toString()}`;
+    return `${this.endpoints.authUrl}?${params.toString()}`;
   }
 
-  async exchangeCodeForToken(code: string, clientId: string, clientSecret: string): Promise<void> {
-    const response = await fetch(STRAVA_TOKEN_URL, {
+  /**
+   * POST a grant to the token endpoint. With a token proxy configured the
+   * proxy adds the client credentials, so the secret never reaches the browser.
+   */
+  private async requestToken(settings: StravaSettings, grant: Record<string, string>): Promise<Response> {
+    const body = settings.tokenProxyUrl
+      ? grant
+      : { client_id: settings.clientId, client_secret: settings.clientSecret, ...grant };
+    return await this.transport(settings.tokenProxyUrl || this.endpoints.tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        client_id: clientId,
-        client_secret: clientSecret,
-        code: code,
-        grant_type: 'authorization_code'
-      })
+      body: JSON.stringify(body)
     });
+  }
+
+  /** Client credentials (or a token proxy) are enough to request tokens */
+  hasTokenCredentials(settings: StravaSettings | null): boolean {
+    return !!settings?.clientId && (!!settings.tokenProxyUrl || !!settings.clientSecret);
+  }
+
+  /** `grantedScope` is the scope Strava passed back on the redirect */
+  async exchangeCodeForToken(code: string, grantedScope?: string): Promise<void> {
+    const settings = await this.getSettings();
+    if (!settings || !this.hasTokenCredentials(settings)) {
+      throw new Error('Client credentials not found. Please configure them in Settings.');
+    }
+
+    const response = await this.requestToken(settings, { code, grant_type: 'authorization_code' });
 
     if (!response.ok) {
       throw new Error(`Failed to exchange code for token: ${response.statusText}`);
@@ -67,35 +156,112 @@ export class StravaService {
     const data = await response.json();
     
     await this.saveSettings({
-      clientId,
-      clientSecret,
       accessToken: data.access_token,
       refreshToken: data.refresh_token,
       expiresAt: data.expires_at * 1000, // Convert to milliseconds
-      scope: data.scope
+      scope: data.scope || grantedScope,
+      authError: undefined
     });
+    await this.updateAuthStatus();
+  }
+
+  // ============ AUTH STATE ============
+
+  getAuthStatus(): AuthStatus {
+    return this.authStatus;
   }
 
-  async refreshAccessToken(): Promise<void> {
+  /** Listen for auth state changes; returns an unsubscribe function */
+  subscribeAuth(listener: (status: AuthStatus) => void): () => void {
+    this.authListeners.add(listener);
+    this.updateAuthStatus(false).catch(err => console.error('Failed to load auth status:', err));
+    return () => {
+      this.authListeners.delete(listener);
+    };
+  }
+
+  /** Required scopes the current token was not granted */
+  async getMissingScopes(): Promise<string[]> {
     const settings = await this.getSettings();
-    if (!settings?.refreshToken || !settings.clientId || !settings.clientSecret) {
+    // Tokens from before scopes were recorded are assumed to be fine
+    if (!settings?.accessToken || !settings.scope) return [];
+    const granted = settings.scope.split(',');
+    return REQUIRED_SCOPES.filter(scope => !granted.includes(scope));
+  }
+
+  private setAuthStatus(status: AuthStatus): void {
+    this.authStatus = status;
+    this.authListeners.forEach(listener => listener(status));
+  }
+
+  /** Derive the state from stored settings and tell other tabs when it changed here */
+  private async updateAuthStatus(broadcast = true): Promise<void> {
+    const settings = await this.getSettings();
+    if (settings?.accessToken) {
+      this.setAuthStatus({ state: 'connected', missingScopes: await this.getMissingScopes() });
+    } else if (settings?.authError) {
+      this.setAuthStatus({ state: 'reauthRequired', missingScopes: [], reason: settings.authError });
+    } else {
+      this.setAuthStatus({ state: 'disconnected', missingScopes: [] });
+    }
+    if (broadcast) {
+      this.authChannel?.postMessage('changed');
+    }
+  }
+
+  private async requireReauth(reason: string): Promise<void> {
+    await this.saveSettings({ accessToken: undefined, refreshToken: undefined, expiresAt: undefined, authError: reason });
+    await this.updateAuthStatus();
+  }
+
+  /**
+   * Refresh the access token. Concurrent callers share one request, and a
+   * Web Lock keeps two tabs from rotating the refresh token at once.
+   * `rejectedToken` forces a refresh when Strava refused a token that
+   * still looked valid.
+   */
+  refreshAccessToken(rejectedToken?: string): Promise<string> {
+    if (!this.refreshing) {
+      const refresh = () => this.doRefresh(rejectedToken);
+      const locked = typeof navigator !== 'undefined' && navigator.locks
+        ? navigator.locks.request(REFRESH_LOCK, refresh)
+        : refresh();
+      this.refreshing = locked.finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(rejectedToken?: string): Promise<string> {
+    // Another tab may have refreshed while this one waited for the lock
+    this.settings = null;
+    const settings = await this.getSettings();
+    if (settings?.accessToken && settings.accessToken !== rejectedToken && !this.isExpiring(settings)) {
+      return settings.accessToken;
+    }
+    if (!settings?.refreshToken || !this.hasTokenCredentials(settings)) {
+      await this.requireReauth('Strava login is missing - connect again in Settings');
       throw new Error('Missing refresh token or client credentials');
     }
 
-    const response = await fetch(STRAVA_TOKEN_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        client_id: settings.clientId,
-        client_secret: settings.clientSecret,
-        refresh_token: settings.refreshToken,
-        grant_type: 'refresh_token'
-      })
-    });
+    this.setAuthStatus({ ...this.authStatus, state: 'refreshing' });
+    let response: Response;
+    try {
+      response = await this.requestToken(settings, { refresh_token: settings.refreshToken, grant_type: 'refresh_token' });
+    } catch (error) {
+      // Offline - the tokens may still be fine once we're back
+      await this.updateAuthStatus(false);
+      throw error;
+    }
 
     if (!response.ok) {
+      if (response.status === 400 || response.status === 401) {
+        // The refresh token was revoked or already rotated; only a new login helps
+        await this.requireReauth('Strava access has expired or was revoked - reconnect in Settings');
+        throw new Error('Strava authorization expired - reconnect Strava in Settings');
+      }
+      await this.updateAuthStatus(false);
       throw new Error(`Failed to refresh token: ${response.statusText}`);
     }
 
@@ -104,88 +270,120 @@ export class StravaService {
     await this.saveSettings({
       accessToken: data.access_token,
       refreshToken: data.refresh_token,
-      expiresAt: data.expires_at * 1000
+      expiresAt: data.expires_at * 1000,
+      authError: undefined
     });
+    await this.updateAuthStatus();
+    return data.access_token;
+  }
+
+  // Treat tokens within 5 minutes of expiry as expired
+  private isExpiring(settings: StravaSettings): boolean {
+    return !!settings.expiresAt && settings.expiresAt < Date.now() + 5 * 60 * 1000;
   }
 
   async ensureValidToken(): Promise<string> {
     const settings = await this.getSettings();
     if (!settings?.accessToken) {
-      throw new Error('No access token available');
+      throw new Error(settings?.authError || 'No access token available');
     }
 
-    // Check if token is expired (with 5 minute buffer)
-    if (settings.expiresAt && settings.expiresAt < Date.now() + 5 * 60 * 1000) {
-      await this.refreshAccessToken();
-      const updatedSettings = await this.getSettings();
-      return updatedSettings!.accessToken!;
+    if (this.isExpiring(settings)) {
+      return await this.refreshAccessToken();
     }
 
     return settings.accessToken;
   }
 
   async makeAuthenticatedRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-    const token = await this.ensureValidToken();
-    
-    const response = await fetch(`${STRAVA_BASE_URL}${endpoint}`, {
+    // Queued so every call shares the rate limit; the token is read per attempt
+    // since a paused request may go out after it has expired
+    return await stravaRequestQueue.schedule(async () => {
+      const token = await this.ensureValidToken();
+      const response = await this.sendWithToken(endpoint, options, token);
+      if (response.status !== 401) {
+        return response;
+      }
+      // Revoked or rotated elsewhere before its expiry: refresh once and retry
+      return await this.sendWithToken(endpoint, options, await this.refreshAccessToken(token));
+    });
+  }
+
+  private async sendWithToken(endpoint: string, options: RequestInit, token: string): Promise<Response> {
+    // Multipart bodies (uploads) need the browser to set their own boundary
+    const contentType: Record<string, string> = options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' };
+    return await this.transport(`${this.endpoints.apiBaseUrl}${endpoint}`, {
       ...options,
       headers: {
         ...options.headers,
         'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
+        ...contentType
       }
     });
-
-    return response;
   }
 
-  private async ensureUuidForStravaId(stravaId: number): Promise<string> {
+  async ensureUuidForStravaId(stravaId: number): Promise<string> {
     const existing = await db.allActivities
       .where('externalId')
       .equals(stravaId)
       .first();
     if (existing) {
-      const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(existing.id);
-      if (!isUuid) {
-        const uuid = crypto.randomUUID();
-        const { id: _oldId, ...rest } = existing;
-        await db.allActivities.delete(existing.id);
-        await db.allActivities.add({ ...rest, id: uuid });
-        const details = await db.allActivityDetails.get(existing.id as any);
-        if (details) {
-          const { id: _oldDetId, ...detRest } = details;
-          await db.allActivityDetails.delete(existing.id as any);
-          await db.allActivityDetails.add({ ...detRest, id: uuid });
-        }
-        await db.activitySegments.where('activityId').equals(existing.id).modify({ activityId: uuid });
-        await db.segments.where('activityId').equals(existing.id).modify({ activityId: uuid });
-        await db.segmentEfforts.where('activityId').equals(existing.id).modify({ activityId: uuid });
-        await db.routeGroups.where('activityId').equals(existing.id).modify({ activityId: uuid });
-        await db.routeActivities.where('activityId').equals(existing.id).modify({ activityId: uuid });
-        return uuid;
-      }
       return existing.id;
     }
+    // Re-synced after a reset: pick up the id local edits were saved under
+    const override = await db.activityOverrides.where('externalId').equals(stravaId).first();
+    if (override) {
+      return override.id;
+    }
     const uuid = crypto.randomUUID();
     return uuid;
   }
 
-  async getActivities(page: number = 1, perPage: number = 30): Promise<StravaActivity[]> {
-    const response = await this.makeAuthenticatedRequest(
-      `/athlete/activities?page=${page}&per_page=${perPage}`
-    );
+  /** Replace the UTC placeholder an archive import stored as start_date_local */
+  async fillMissingLocalTime(uuid: string, remote: StravaActivity): Promise<void> {
+    const changes = { start_date_local: remote.start_date_local, utc_offset: remote.utc_offset, localTimeMissing: undefined };
+    await db.transaction('rw', db.allActivities, db.allActivityDetails, async () => {
+      await db.allActivities.update(uuid, changes);
+      await db.allActivityDetails.update(uuid, changes);
+    });
+  }
+
+  /**
+   * Fetch a page of activities without saving them. `before`/`after` are
+   * epoch seconds; with `after` Strava returns oldest first.
+   */
+  async fetchActivitiesPage(
+    page: number = 1,
+    perPage: number = 30,
+    range: { before?: number; after?: number } = {}
+  ): Promise<StravaActivity[]> {
+    const params = new URLSearchParams({ page: String(page), per_page: String(perPage) });
+    if (range.before !== undefined) params.set('before', String(range.before));
+    if (range.after !== undefined) params.set('after', String(range.after));
+    const response = await this.makeAuthenticatedRequest(`/athlete/activities?${params}`);
 
     if (!response.ok) {
       throw new Error(`Failed to fetch activities: ${response.statusText}`);
     }
 
-    const activities = await response.json();
+    return await response.json();
+  }
+
+  /** Fetch a page of activities and save any new ones locally */
+  async getActivities(
+    page: number = 1,
+    perPage: number = 30,
+    range: { before?: number; after?: number } = {}
+  ): Promise<StravaActivity[]> {
+    const activities = await this.fetchActivitiesPage(page, perPage, range);
     
     // Save activities to IndexedDB
     for (const activity of activities) {
-      await db.activities.put(activity);
       const uuid = await this.ensureUuidForStravaId(activity.id);
       const exists = await db.allActivities.get(uuid);
+      if (exists?.localTimeMissing) {
+        await this.fillMissingLocalTime(uuid, activity);
+      }
       if (!exists) {
         await db.allActivities.add({
           source: 'strava',
@@ -200,19 +398,25 @@ export class StravaService {
     return activities;
   }
 
-  async getActivityDetail(activityId: number): Promise<ActivityDetail> {
+  async getActivityDetail(uuid: string): Promise<ActivityDetail> {
     // First try to get from IndexedDB
-    const cachedDetail = await db.activityDetails.get(activityId);
-    const uuid = await this.ensureUuidForStravaId(activityId);
-    const cachedUnifiedDetail = await db.allActivityDetails.get(uuid);
+    const cachedDetail = await db.getActivityDetail(uuid);
 
-    if (cachedUnifiedDetail && cachedUnifiedDetail.streams) {
-      return cachedUnifiedDetail;
-    }
-    if (cachedDetail && cachedDetail.streams) {
+    // Pruned activities keep their derived data; don't download streams again
+    if (cachedDetail && (cachedDetail.streams || cachedDetail.streamsPrunedAt)) {
       return cachedDetail;
     }
 
+    const activity = await db.allActivities.get(uuid);
+    if (!activity) {
+      throw new Error(`Activity ${uuid} not found`);
+    }
+    if (activity.source !== 'strava' || activity.externalId === undefined) {
+      // Nothing to fetch for device imports
+      return cachedDetail || (activity as ActivityDetail);
+    }
+    const activityId = activity.externalId;
+
     // If not cached, fetch from API
     const response = await this.makeAuthenticatedRequest(`/activities/${activityId}`);
 
@@ -227,14 +431,13 @@ export class StravaService {
       const streams = await this.getActivityStreams(activityId);
       activityDetail.streams = streams;
     } catch (error) {
+      // A rate limit is worth waiting for; a detail saved now would never get its streams
+      if (error instanceof RateLimitError) throw error;
       console.warn('Failed to fetch activity streams:', error);
       // Continue without streams if they fail to load
     }
     
-    // Save to IndexedDB (old table)
-    await db.activityDetails.put(activityDetail);
-
-    // Save to unified table
+    // Save to IndexedDB
     const { id, description, calories, segment_efforts, splits_metric, splits_standard, laps, best_efforts, photos, stats_visibility, hide_from_home, device_name, embed_token, similar_activities, available_zones, streams, ...rest } = activityDetail;
     const unifiedDetail = {
       id: uuid,
@@ -257,7 +460,7 @@ export class StravaService {
       available_zones,
       streams
     };
-    await db.allActivityDetails.put(unifiedDetail);
+    await db.putActivityDetail(unifiedDetail);
 
     // Auto-scan against existing segments (non-blocking)
     if (activityDetail.streams?.latlng && activityDetail.streams?.time) {
@@ -269,6 +472,52 @@ export class StravaService {
     return unifiedDetail;
   }
 
+  async getActivityZones(activityId: number): Promise<StravaActivityZone[]> {
+    const response = await this.makeAuthenticatedRequest(`/activities/${activityId}/zones`);
+    // Zones need a Strava subscription; without one there is nothing to store
+    if (response.status === 402 || response.status === 403) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch activity zones: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  /**
+   * Fetch and store the activity's zones. Laps already come with the detail,
+   * so only call this when the zones are about to be shown.
+   */
+  async loadZones(uuid: string): Promise<StravaActivityZone[]> {
+    const activity = await db.allActivities.get(uuid);
+    if (!activity || activity.externalId === undefined) {
+      return [];
+    }
+    const zones = await this.getActivityZones(activity.externalId);
+    await db.allActivityDetails.update(uuid, { zones });
+    return zones;
+  }
+
+  /** PUT changed fields to Strava and return the updated activity */
+  async updateActivity(externalId: number, changes: StravaActivityEdit): Promise<StravaActivity & { description?: string }> {
+    const body = { ...changes };
+    // Strava removes gear when sent "none"
+    if (body.gear_id === '') body.gear_id = 'none';
+    const response = await this.makeAuthenticatedRequest(`/activities/${externalId}`, {
+      method: 'PUT',
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Strava has not granted edit access - reconnect Strava in Settings');
+      }
+      throw new Error(`Failed to update activity: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
   async getActivityStreams(activityId: number): Promise<StreamData> {
     // Define the stream types we want to fetch
     const streamTypes = ['time', 'distance', 'latlng', 'altitude', 'velocity_smooth', 'heartrate', 'cadence', 'watts', 'temp', 'moving', 'grade_smooth'];
@@ -297,35 +546,24 @@ export class StravaService {
     return streams;
   }
 
-  async getCachedActivities(): Promise<StravaActivity[]> {
-    return await db.activities.orderBy('start_date_local').reverse().toArray();
-  }
-
-  async getCachedUnifiedActivities(): Promise<Activity[]> {
-    return await db.allActivities.orderBy('start_date_local').reverse().toArray();
+  async getCachedUnifiedActivities(): Promise<ActivityView[]> {
+    const activities = await db.allActivities.orderBy('start_date_local').reverse().toArray();
+    return await activityOverrideService.withOverrides(activities);
   }
 
   async clearCache(): Promise<void> {
-    await db.activities.clear();
-    await db.activityDetails.clear();
     await db.allActivities.clear();
     await db.allActivityDetails.clear();
+    await db.activityStreams.clear();
+    await db.syncState.clear();
   }
 
-  async clearActivityDetailCache(activityId?: number | string): Promise<void> {
+  async clearActivityDetailCache(activityId?: string): Promise<void> {
     if (activityId !== undefined) {
-      await db.activityDetails.delete(activityId as any);
-      if (typeof activityId === 'number') {
-        const unified = await db.allActivities.where('externalId').equals(activityId).first();
-        if (unified) {
-          await db.allActivityDetails.delete(unified.id);
-        }
-      } else {
-        await db.allActivityDetails.delete(activityId);
-      }
+      await db.deleteActivityDetail(activityId);
     } else {
-      await db.activityDetails.clear();
       await db.allActivityDetails.clear();
+      await db.activityStreams.clear();
     }
   }
 
@@ -359,6 +597,25 @@ export class StravaService {
     }
   }
 
+  /** Strava's recent/YTD/all-time totals, cached on the athlete row */
+  async getAthleteStats(forceRefresh = false): Promise<StravaAthleteStats | null> {
+    const athlete = await this.getAthlete();
+    if (!athlete) {
+      return null;
+    }
+    if (athlete.stats && !forceRefresh) {
+      return athlete.stats;
+    }
+
+    const response = await this.makeAuthenticatedRequest(`/athletes/${athlete.id}/stats`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch athlete stats: ${response.statusText}`);
+    }
+    const stats: StravaAthleteStats = await response.json();
+    await db.athlete.update(athlete.id, { stats, statsFetchedAt: Date.now() });
+    return stats;
+  }
+
   async updateAthleteBirthYear(birthYear: number): Promise<void> {
     try {
       const athlete = await this.getAthlete();
@@ -387,6 +644,7 @@ export class StravaService {
     await db.settings.clear();
     await this.clearCache();
     this.settings = null;
+    await this.updateAuthStatus();
   }
 
   async resetDatabase(): Promise<void> {
@@ -399,14 +657,23 @@ export class StravaService {
     }
   }
 
-  async exportAllData(): Promise<string> {
-    return await db.exportData();
+  async exportAllData(options: ExportOptions = {}): Promise<string> {
+    return await db.exportData(options);
+  }
+
+  async previewImport(jsonData: string): Promise<ImportConflictReport> {
+    return await db.previewImport(jsonData);
   }
 
-  async importAllData(jsonData: string): Promise<void> {
-    await db.importData(jsonData);
+  /**
+   * Import a backup, then check the result for orphaned or duplicated rows
+   * so the caller can offer a repair.
+   */
+  async importAllData(jsonData: string, mode: ImportMode = 'replace'): Promise<IntegrityReport> {
+    await db.importData(jsonData, mode);
     // Clear cached settings and reload
     this.settings = null;
+    return await integrityService.check();
   }
 
   async getDataStats() {
@@ -538,23 +805,24 @@ export class StravaService {
    * Calculate all standard distance segments for an activity
    */
   async calculateSegmentsForActivity(
-    activityId: number,
+    activityId: string,
     distances: number[] = StravaService.STANDARD_DISTANCES
   ): Promise<ActivitySegment[]> {
     try {
-      const activity = await db.activityDetails.get(activityId);
-      const uuid = await this.ensureUuidForStravaId(activityId);
-      const unifiedActivity = await db.allActivityDetails.get(uuid);
-      const detail = unifiedActivity || activity;
+      const detail = await db.getActivityDetail(activityId);
       if (!detail) {
         console.warn(`Activity ${activityId} not found`);
         return [];
       }
+      if (detail.streamsPrunedAt) {
+        // Streams were pruned; keep the records calculated before
+        return [];
+      }
 
       const segments: ActivitySegment[] = [];
 
       for (const distance of distances) {
-        const segment = await this.extractSegmentTime(detail, distance, uuid);
+        const segment = await this.extractSegmentTime(detail, distance, activityId);
         if (segment) {
           segments.push(segment);
         }
@@ -578,7 +846,7 @@ export class StravaService {
   async getPersonalRecordForDistance(
     distanceKm: number,
     activityType?: string
-  ): Promise<(ActivitySegment & { activity: StravaActivity }) | null> {
+  ): Promise<(ActivitySegment & { activity: Activity }) | null> {
     try {
       const segments = await db.activitySegments
         .where('distanceKm')
@@ -589,27 +857,29 @@ export class StravaService {
         return null;
       }
 
+      // Activities excluded from stats can't hold a record
+      const activityIds = Array.from(new Set(segments.map(s => s.activityId)));
+      const stored = (await db.allActivities.bulkGet(activityIds)).filter((a): a is Activity => !!a);
+      const activities = new Map(
+        (await activityOverrideService.withOverrides(stored))
+          .filter(a => !a.excludeFromStats)
+          .map(a => [a.id, a])
+      );
+
       // Find fastest (lowest pace)
-      let fastest = segments[0];
+      let fastest: ActivitySegment | undefined;
       for (const segment of segments) {
-        if (segment.pace < fastest.pace) {
+        if (activities.has(segment.activityId) && (!fastest || segment.pace < fastest.pace)) {
           fastest = segment;
         }
       }
-
-      // Get associated activity from unified table
-      const unifiedActivity = await db.allActivities.get(fastest.activityId);
-      if (!unifiedActivity) {
+      if (!fastest) {
         return null;
       }
-      const activity: StravaActivity = {
-        ...unifiedActivity,
-        id: unifiedActivity.externalId || 0
-      };
 
       return {
         ...fastest,
-        activity
+        activity: activities.get(fastest.activityId)!
       };
     } catch (error) {
       console.error(`Error getting PR for ${distanceKm}km:`, error);
@@ -621,9 +891,9 @@ export class StravaService {
    * Get all personal records for all standard distances
    */
   async getAllPersonalRecords(): Promise<
-    Map<number, (ActivitySegment & { activity: StravaActivity }) | null>
+    Map<number, (ActivitySegment & { activity: Activity }) | null>
   > {
-    const records = new Map<number, (ActivitySegment & { activity: StravaActivity }) | null>();
+    const records = new Map<number, (ActivitySegment & { activity: Activity }) | null>();
 
     for (const distance of StravaService.STANDARD_DISTANCES) {
       const pr = await this.getPersonalRecordForDistance(distance);
@@ -633,38 +903,6 @@ export class StravaService {
     return records;
   }
 
-  /**
-   * Recalculate segments for all cached activities
-   * Useful after importing data or updating activity cache
-   */
-  async recalculateAllSegments(
-    progressCallback?: (current: number, total: number) => void
-  ): Promise<number> {
-    try {
-      const activities = await db.allActivities.toArray();
-      let calculatedCount = 0;
-
-      for (let i = 0; i < activities.length; i++) {
-        const numericId = activities[i].externalId;
-        if (numericId === undefined) continue;
-        const segments = await this.calculateSegmentsForActivity(numericId);
-        if (segments.length > 0) {
-          calculatedCount++;
-        }
-
-        if (progressCallback) {
-          progressCallback(i + 1, activities.length);
-        }
-      }
-
-      console.log(`Recalculated segments for ${calculatedCount} activities`);
-      return calculatedCount;
-    } catch (error) {
-      console.error('Error recalculating all segments:', error);
-      return 0;
-    }
-  }
-
   /**
    * Clear all cached segments (e.g., when resetting database)
    */
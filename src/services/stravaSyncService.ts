@@ -0,0 +1,98 @@
+import { db, StravaActivity, SyncState } from './database';
+import { stravaService } from './stravaService';
+
+const SYNC_STATE_ID = 'strava';
+const PAGE_SIZE = 100;
+
+export interface SyncProgress {
+  phase: 'recent' | 'backfill' | 'done';
+  fetched: number;
+  oldestDate?: string; // how far back the backfill has reached
+}
+
+const toEpoch = (activity: StravaActivity) => Math.floor(new Date(activity.start_date).getTime() / 1000);
+
+/**
+ * Incremental Strava sync. The first run backfills the whole history page by
+ * page going back in time; later runs only ask for activities newer than the
+ * newest one seen. The cursor is saved after every page so a sync cut short
+ * by closing the tab picks up where it stopped.
+ */
+export class StravaSyncService {
+  private running: Promise<SyncState> | null = null;
+
+  async getState(): Promise<SyncState> {
+    return (await db.syncState.get(SYNC_STATE_ID)) || { id: SYNC_STATE_ID, backfillComplete: false };
+  }
+
+  async resetState(): Promise<void> {
+    await db.syncState.delete(SYNC_STATE_ID);
+  }
+
+  /** Run a sync, or join the one already in progress */
+  sync(onProgress?: (progress: SyncProgress) => void): Promise<SyncState> {
+    if (!this.running) {
+      this.running = this.run(onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    await db.syncState.put(state);
+  }
+
+  private async run(onProgress?: (progress: SyncProgress) => void): Promise<SyncState> {
+    let state = await this.getState();
+    let fetched = 0;
+    const report = (phase: SyncProgress['phase']) => onProgress?.({
+      phase,
+      fetched,
+      oldestDate: state.backfillBefore ? new Date(state.backfillBefore * 1000).toISOString() : undefined,
+    });
+
+    // New activities since the last run, oldest first
+    if (state.newestStartDate !== undefined || state.backfillComplete) {
+      report('recent');
+      for (;;) {
+        const after = state.newestStartDate ?? 0;
+        const page = await stravaService.getActivities(1, PAGE_SIZE, { after });
+        if (page.length === 0) break;
+        fetched += page.length;
+        state = { ...state, newestStartDate: Math.max(after, ...page.map(toEpoch)) };
+        await this.saveState(state);
+        report('recent');
+        if (page.length < PAGE_SIZE) break;
+      }
+    }
+
+    // History backfill, newest first, resuming from the oldest page reached
+    if (!state.backfillComplete) {
+      report('backfill');
+      for (;;) {
+        const page = await stravaService.getActivities(1, PAGE_SIZE, { before: state.backfillBefore });
+        fetched += page.length;
+        if (page.length > 0) {
+          const starts = page.map(toEpoch);
+          state = {
+            ...state,
+            backfillBefore: Math.min(...starts),
+            newestStartDate: Math.max(state.newestStartDate ?? 0, ...starts),
+          };
+        }
+        state = { ...state, backfillComplete: page.length < PAGE_SIZE };
+        await this.saveState(state);
+        report('backfill');
+        if (state.backfillComplete) break;
+      }
+    }
+
+    state = { ...state, lastSyncAt: Date.now() };
+    await this.saveState(state);
+    report('done');
+    return state;
+  }
+}
+
+export const stravaSyncService = new StravaSyncService();
@@ -0,0 +1,72 @@
+import { StreamData } from './database';
+import { decodeStreams, encodeStreams, STREAM_ENCODING_VERSION } from './streamCodec';
+
+const roundTrip = (streams: StreamData) => decodeStreams(encodeStreams('a1', streams));
+
+describe('streamCodec', () => {
+  it('round-trips streams at their quantized precision', () => {
+    const streams: StreamData = {
+      time: [0, 1, 2, 5, 9],
+      distance: [0, 2.84, 5.61, 14.2, 25.53],
+      latlng: [[40.015123, -105.270512], [40.015201, -105.270433], [40.015298, -105.27031]],
+      altitude: [1650.2, 1650.4, 1651, 1650.9, 1649.8],
+      velocity_smooth: [0, 2.841, 2.77, 2.953, 2.831],
+      heartrate: [98, 104, 121, 133, 140],
+      moving: [false, true, true, true, false],
+    };
+
+    const decoded = roundTrip(streams);
+
+    expect(decoded.time).toEqual(streams.time);
+    expect(decoded.heartrate).toEqual(streams.heartrate);
+    expect(decoded.moving).toEqual(streams.moving);
+    decoded.distance!.forEach((d, i) => expect(d).toBeCloseTo(streams.distance![i], 1));
+    decoded.altitude!.forEach((a, i) => expect(a).toBeCloseTo(streams.altitude![i], 1));
+    decoded.velocity_smooth!.forEach((v, i) => expect(v).toBeCloseTo(streams.velocity_smooth![i], 3));
+    decoded.latlng!.forEach(([lat, lng], i) => {
+      expect(lat).toBeCloseTo(streams.latlng![i][0], 6);
+      expect(lng).toBeCloseTo(streams.latlng![i][1], 6);
+    });
+  });
+
+  it('keeps nulls and non-finite values exactly', () => {
+    const heartrate = [120, null, 125, null] as unknown as number[];
+    const watts = [NaN, Infinity, -Infinity, 210.5];
+
+    const record = encodeStreams('a1', { heartrate, watts });
+    expect(record.channels.heartrate?.kind).toBe('float');
+    expect(record.channels.watts?.kind).toBe('float');
+
+    const decoded = decodeStreams(record);
+    expect(decoded.heartrate).toEqual([120, null, 125, null]);
+    expect(decoded.watts).toEqual([NaN, Infinity, -Infinity, 210.5]);
+  });
+
+  it('keeps null latlng samples', () => {
+    const latlng = [[40.0151, -105.2705], null, [40.0153, -105.2703]] as unknown as [number, number][];
+
+    const record = encodeStreams('a1', { latlng });
+    expect(record.channels.latlng).toMatchObject({ kind: 'float', nulls: [2, 3] });
+    expect(decodeStreams(record).latlng).toEqual(latlng);
+  });
+
+  it('picks the narrowest array that fits the deltas', () => {
+    const small = encodeStreams('a1', { time: [0, 1, 2, 3] });
+    const large = encodeStreams('a1', { distance: [0, 5000, 10000] });
+
+    expect(small.channels.time?.data).toBeInstanceOf(Int16Array);
+    expect(large.channels.distance?.data).toBeInstanceOf(Int32Array);
+    expect(decodeStreams(large).distance).toEqual([0, 5000, 10000]);
+  });
+
+  it('skips empty streams and records sizes', () => {
+    const time = Array.from({ length: 1000 }, (_, i) => i);
+    const record = encodeStreams('a1', { time, cadence: [] });
+
+    expect(record.id).toBe('a1');
+    expect(record.encoding).toBe(STREAM_ENCODING_VERSION);
+    expect(Object.keys(record.channels)).toEqual(['time']);
+    expect(record.encodedBytes).toBeLessThan(record.rawBytes);
+    expect(decodeStreams(record)).toEqual({ time });
+  });
+});
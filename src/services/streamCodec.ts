@@ -0,0 +1,181 @@
+import { StreamData } from './database';
+
+/**
+ * Compact binary encoding for activity streams.
+ *
+ * Numeric streams are quantized to a fixed precision per stream type and
+ * stored as deltas in the narrowest typed array that fits (Int16 or Int32).
+ * latlng is interleaved [lat, lng, lat, lng, ...] with a stride of 2.
+ * Streams containing non-finite values fall back to a lossless Float64Array,
+ * with the positions of any null samples kept alongside.
+ */
+export const STREAM_ENCODING_VERSION = 1;
+
+export type StreamKey = keyof StreamData;
+
+export interface EncodedChannel {
+  kind: 'delta' | 'float' | 'bool';
+  // values are stored as Math.round(value * scale)
+  scale: number;
+  // values per sample (2 for latlng)
+  stride: number;
+  // first quantized sample for each stride column (delta kind only)
+  base: number[];
+  data: Int16Array | Int32Array | Float64Array | Uint8Array;
+  // indices of null samples, which Float64Array can't hold (float kind only)
+  nulls?: number[];
+}
+
+export interface ActivityStreamsRecord {
+  id: string;
+  encoding: number;
+  channels: Partial<Record<StreamKey, EncodedChannel>>;
+  rawBytes: number;
+  encodedBytes: number;
+  updatedAt: number;
+}
+
+/**
+ * Quantization per stream type. 1 = whole units, 10 = 0.1, etc.
+ * latlng at 1e6 keeps ~0.1 m, which matches the precision Strava returns.
+ */
+const STREAM_SCALES: Record<Exclude<StreamKey, 'moving'>, number> = {
+  time: 1,
+  distance: 10,
+  latlng: 1e6,
+  altitude: 10,
+  velocity_smooth: 1000,
+  heartrate: 1,
+  cadence: 1,
+  watts: 1,
+  temp: 1,
+  grade_smooth: 10,
+};
+
+const INT16_MAX = 32767;
+const INT32_MAX = 2147483647;
+
+function encodeFloat(values: number[], stride: number): EncodedChannel {
+  const nulls: number[] = [];
+  values.forEach((v, i) => {
+    if (v === null) nulls.push(i);
+  });
+  const channel: EncodedChannel = { kind: 'float', scale: 1, stride, base: [], data: Float64Array.from(values) };
+  if (nulls.length > 0) channel.nulls = nulls;
+  return channel;
+}
+
+function encodeNumeric(values: number[], scale: number, stride: number): EncodedChannel {
+  if (values.some(v => typeof v !== 'number' || !isFinite(v) || Math.abs(v * scale) > INT32_MAX)) {
+    return encodeFloat(values, stride);
+  }
+
+  const quantized = values.map(v => Math.round(v * scale));
+  const base = quantized.slice(0, stride);
+  const deltas = quantized.map((q, i) => (i < stride ? q - base[i] : q - quantized[i - stride]));
+  const fitsInt16 = deltas.every(d => Math.abs(d) <= INT16_MAX);
+  const fitsInt32 = deltas.every(d => Math.abs(d) <= INT32_MAX);
+
+  if (!fitsInt32) {
+    return encodeFloat(values, stride);
+  }
+
+  return {
+    kind: 'delta',
+    scale,
+    stride,
+    base,
+    data: fitsInt16 ? Int16Array.from(deltas) : Int32Array.from(deltas),
+  };
+}
+
+function decodeNumeric(channel: EncodedChannel): number[] {
+  const data = channel.data;
+  if (channel.kind === 'float') {
+    const values = Array.from(data);
+    // Strava sends null for missing samples even though the types say number
+    channel.nulls?.forEach(i => {
+      values[i] = null as unknown as number;
+    });
+    return values;
+  }
+
+  const { stride, scale, base } = channel;
+  const running = base.slice();
+  const out: number[] = new Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const col = i % stride;
+    if (i >= stride) {
+      running[col] += data[i];
+    }
+    out[i] = running[col] / scale;
+  }
+  return out;
+}
+
+export function encodeStreams(id: string, streams: StreamData): ActivityStreamsRecord {
+  const channels: Partial<Record<StreamKey, EncodedChannel>> = {};
+
+  (Object.keys(streams) as StreamKey[]).forEach(key => {
+    const values = streams[key];
+    if (!values || values.length === 0) return;
+
+    if (key === 'moving') {
+      channels.moving = {
+        kind: 'bool',
+        scale: 1,
+        stride: 1,
+        base: [],
+        data: Uint8Array.from(values as boolean[], v => (v ? 1 : 0)),
+      };
+    } else if (key === 'latlng') {
+      const flat: number[] = [];
+      // A null sample becomes a null pair, which the float fallback keeps
+      (values as ([number, number] | null)[]).forEach(point => {
+        if (point) flat.push(point[0], point[1]);
+        else flat.push(null as unknown as number, null as unknown as number);
+      });
+      channels.latlng = encodeNumeric(flat, STREAM_SCALES.latlng, 2);
+    } else if (key in STREAM_SCALES) {
+      channels[key] = encodeNumeric(values as number[], STREAM_SCALES[key], 1);
+    }
+  });
+
+  const encodedBytes = Object.values(channels).reduce(
+    (sum, ch) => sum + (ch ? ch.data.byteLength + ch.base.length * 8 : 0),
+    0
+  );
+
+  return {
+    id,
+    encoding: STREAM_ENCODING_VERSION,
+    channels,
+    rawBytes: JSON.stringify(streams).length,
+    encodedBytes,
+    updatedAt: Date.now(),
+  };
+}
+
+export function decodeStreams(record: ActivityStreamsRecord): StreamData {
+  const streams: StreamData = {};
+
+  (Object.keys(record.channels) as StreamKey[]).forEach(key => {
+    const channel = record.channels[key];
+    if (!channel) return;
+
+    if (channel.kind === 'bool') {
+      streams.moving = Array.from(channel.data, v => v === 1);
+    } else if (key === 'latlng') {
+      const flat = decodeNumeric(channel);
+      const latlng: [number, number][] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        latlng.push(flat[i] === null ? null as unknown as [number, number] : [flat[i], flat[i + 1]]);
+      }
+      streams.latlng = latlng;
+    } else {
+      (streams as Record<string, number[]>)[key] = decodeNumeric(channel);
+    }
+  });
+
+  return streams;
+}
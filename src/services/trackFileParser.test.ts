@@ -0,0 +1,148 @@
+import { guessLocalTime, parseGpx, parseTcx } from './trackFileParser';
+
+const GPX = `
+<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Garmin Connect" xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <trk>
+    <name>Lunch Run</name>
+    <type>running</type>
+    <trkseg>
+      <trkpt lat="40.0000" lon="-105.0000"><ele>1600</ele><time>2024-05-01T12:00:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>120</gpxtpx:hr><gpxtpx:cad>84</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="40.0005" lon="-105.0000"><ele>1603</ele><time>2024-05-01T12:00:10Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>130</gpxtpx:hr><gpxtpx:cad>86</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="40.0010" lon="-105.0000"><ele>1603.5</ele></trkpt>
+      <trkpt lat="40.0010" lon="-105.0000"><ele>1603.5</ele><time>2024-05-01T12:00:20Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>140</gpxtpx:hr><gpxtpx:cad>88</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="40.0015" lon="-105.0000"><ele>1608</ele><time>2024-05-01T12:00:30Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>150</gpxtpx:hr><gpxtpx:cad>86</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const trackpoint = (time: string, distance: number, hr: number, lat: number) => `
+  <Trackpoint>
+    <Time>${time}</Time>
+    <Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>-105</LongitudeDegrees></Position>
+    <DistanceMeters>${distance}</DistanceMeters>
+    <HeartRateBpm><Value>${hr}</Value></HeartRateBpm>
+    <Cadence>85</Cadence>
+  </Trackpoint>`;
+
+// Positions jump 0.01 degrees (over a kilometre) so a GPS distance would stand out
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2024-05-01T12:00:00Z</Id>
+      <Lap StartTime="2024-05-01T12:00:00Z">
+        <TotalTimeSeconds>60</TotalTimeSeconds><DistanceMeters>200</DistanceMeters><Calories>15</Calories>
+        <Track>${trackpoint('2024-05-01T12:00:00Z', 0, 110, 40)}${trackpoint('2024-05-01T12:00:30Z', 100, 120, 40.01)}</Track>
+      </Lap>
+      <Lap StartTime="2024-05-01T12:01:00Z">
+        <TotalTimeSeconds>60</TotalTimeSeconds><DistanceMeters>150</DistanceMeters><Calories>12</Calories>
+        <Track>${trackpoint('2024-05-01T12:01:00Z', 200, 130, 40.02)}${trackpoint('2024-05-01T12:01:30Z', 300, 140, 40.03)}</Track>
+      </Lap>
+      <Creator><Name>Edge 530</Name></Creator>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+
+describe('parseGpx', () => {
+  it('builds an activity and streams from the timed track points', () => {
+    const { summary, details } = parseGpx(GPX, 'lunch.gpx');
+
+    expect(summary).toMatchObject({
+      source: 'device',
+      name: 'Lunch Run',
+      type: 'Run',
+      start_date: '2024-05-01T12:00:00.000Z',
+      elapsed_time: 30,
+      moving_time: 30,
+      // 1600 -> 1603 -> 1608, ignoring the half metre wobble
+      total_elevation_gain: 8,
+      average_heartrate: 135,
+      max_heartrate: 150,
+      average_cadence: 86,
+      start_latlng: [40, -105],
+      end_latlng: [40.0015, -105],
+    });
+    // GPX times carry no offset, so local time is a guess until Strava has the activity
+    expect(summary.start_date_local).toBe(guessLocalTime(Date.parse('2024-05-01T12:00:00Z')));
+    expect(summary.localTimeMissing).toBe(true);
+    // 0.0005 degrees of latitude is about 55.6 m
+    expect(summary.distance).toBeCloseTo(166.8, 0);
+    expect(details.device_name).toBe('Garmin Connect');
+
+    const streams = details.streams!;
+    expect(streams.time).toEqual([0, 10, 20, 30]);
+    expect(streams.heartrate).toEqual([120, 130, 140, 150]);
+    expect(streams.altitude).toEqual([1600, 1603, 1603.5, 1608]);
+    expect(streams.latlng).toHaveLength(4);
+    expect(streams.distance![3]).toBeCloseTo(summary.distance);
+  });
+
+  it('falls back to the file name and Other for bare tracks', () => {
+    const gpx = `<gpx xmlns="http://www.topografix.com/GPX/1/1"><trk><trkseg>
+      <trkpt lat="40" lon="-105"><time>2024-05-01T12:00:00Z</time></trkpt>
+      <trkpt lat="40.001" lon="-105"><time>2024-05-01T12:01:00Z</time></trkpt>
+    </trkseg></trk></gpx>`;
+    const { summary, details } = parseGpx(gpx, 'evening-walk.gpx');
+
+    expect(summary.name).toBe('evening-walk');
+    expect(summary.type).toBe('Other');
+    expect(summary.has_heartrate).toBe(false);
+    expect(details.streams!.heartrate).toBeUndefined();
+  });
+
+  it('rejects files it cannot turn into an activity', () => {
+    expect(() => parseGpx('<gpx><trk>', 'broken.gpx')).toThrow('Not a valid GPX file');
+    expect(() => parseGpx('<gpx><rte/></gpx>', 'route.gpx')).toThrow('No track found');
+    expect(() => parseGpx('<gpx><trk><trkseg><trkpt lat="40" lon="-105"/></trkseg></trk></gpx>', 'planned.gpx'))
+      .toThrow('no timed points');
+  });
+});
+
+describe('guessLocalTime', () => {
+  it('shifts a UTC time by the browser offset at that moment', () => {
+    const timestamp = Date.parse('2024-01-15T23:30:00Z');
+    // getTimezoneOffset is minutes behind UTC, e.g. 420 in Denver in winter
+    expect(timestamp - Date.parse(guessLocalTime(timestamp))).toBe(new Date(timestamp).getTimezoneOffset() * 60000);
+  });
+});
+
+describe('parseTcx', () => {
+  it('uses the device distance and keeps the laps', () => {
+    const { summary, details } = parseTcx(TCX, 'ride.tcx');
+
+    expect(summary).toMatchObject({
+      name: 'ride',
+      type: 'Ride',
+      distance: 300,
+      elapsed_time: 90,
+      average_heartrate: 125,
+      average_cadence: 85,
+    });
+    expect(details.device_name).toBe('Edge 530');
+    expect(details.streams!.distance).toEqual([0, 100, 200, 300]);
+    expect(details.calories).toBe(27);
+
+    expect(summary.localTimeMissing).toBe(true);
+    expect(details.laps![1].start_date_local).toBe(guessLocalTime(Date.parse('2024-05-01T12:01:00Z')));
+    expect(details.laps).toEqual([
+      expect.objectContaining({ lap_index: 1, start_index: 0, end_index: 1, distance: 200, moving_time: 60, calories: 15 }),
+      expect.objectContaining({ lap_index: 2, start_index: 2, end_index: 3, distance: 150, start_date: '2024-05-01T12:01:00.000Z' }),
+    ]);
+  });
+
+  it('rejects files without an activity or timed trackpoints', () => {
+    expect(() => parseTcx('<TrainingCenterDatabase/>', 'empty.tcx')).toThrow('No activity found');
+    expect(() => parseTcx('<TrainingCenterDatabase><Activities><Activity Sport="Running"><Lap/></Activity></Activities></TrainingCenterDatabase>', 'blank.tcx'))
+      .toThrow('no timed trackpoints');
+  });
+});
@@ -0,0 +1,352 @@
+import { Activity, ActivityDetail } from './database';
+import { haversineDistance } from './segmentDetector';
+import type { ParsedFitActivity } from './fitImportService';
+
+export interface TrackPoint {
+  time: number; // epoch ms
+  distance?: number; // recorded by the device, e.g. from a foot pod
+  lat?: number;
+  lng?: number;
+  altitude?: number;
+  heartrate?: number;
+  cadence?: number;
+  watts?: number;
+}
+
+export interface TrackInfo {
+  name?: string;
+  type: string;
+  deviceName?: string;
+}
+
+// Slower than this between two points counts as stopped
+const MOVING_SPEED = 0.5;
+// Altitude has to change this much before it counts, to ignore GPS noise
+const ELEVATION_THRESHOLD = 2;
+
+/** FIT sport names to activity types; the other formats map onto these */
+export const SPORT_TYPES: Record<string, string> = {
+  running: 'Run',
+  cycling: 'Ride',
+  swimming: 'Swim',
+  hiking: 'Hike',
+  walking: 'Walk',
+  mountain_biking: 'MountainBikeRide',
+  trail_running: 'TrailRun',
+  virtual_ride: 'VirtualRide',
+  virtual_run: 'VirtualRun',
+  workout: 'Workout',
+  other: 'Other',
+};
+
+const GPX_TYPES: Record<string, string> = {
+  ...SPORT_TYPES,
+  run: 'Run',
+  biking: 'Ride',
+  ride: 'Ride',
+  walk: 'Walk',
+  hike: 'Hike',
+  // Strava's own GPX exports use its numeric activity types
+  '1': 'Ride',
+  '9': 'Run',
+  '10': 'Hike',
+  '11': 'Walk',
+};
+
+/** Fill missing values from the previous one (or the first one, at the start); undefined if there are none */
+function fillGaps<T>(values: (T | undefined)[]): T[] | undefined {
+  const first = values.find(v => v !== undefined);
+  if (first === undefined) return undefined;
+  let previous = first;
+  return values.map(v => (previous = v ?? previous));
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+/** First descendant with this local name, whatever its namespace prefix */
+const child = (parent: Element, name: string): Element | undefined =>
+  parent.getElementsByTagNameNS('*', name)[0];
+
+/** Only the element's own children, for fields nested elements repeat */
+const directChild = (parent: Element, name: string): Element | undefined =>
+  Array.from(parent.children).find(c => c.localName === name);
+
+const toNumber = (element?: Element): number | undefined => {
+  const text = element?.textContent?.trim();
+  const value = text ? parseFloat(text) : NaN;
+  return isNaN(value) ? undefined : value;
+};
+
+const childNumber = (parent: Element, name: string): number | undefined => toNumber(child(parent, name));
+
+/**
+ * GPX and TCX times are UTC with no record of where they were taken, so the
+ * browser's own offset at that moment is the best guess for local time
+ */
+export const guessLocalTime = (timestamp: number): string =>
+  new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000).toISOString();
+
+function parseXml(text: string, format: string): Document {
+  // Some Garmin exports start with whitespace before the XML declaration
+  const doc = new DOMParser().parseFromString(text.trim(), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Not a valid ${format} file`);
+  }
+  return doc;
+}
+
+/**
+ * GPX 1.1 tracks, with heart rate, cadence and power from Garmin's
+ * TrackPointExtension (and the bare <power> element some apps write).
+ */
+export function parseGpx(text: string, fileName: string): ParsedFitActivity {
+  const doc = parseXml(text, 'GPX');
+  const track = doc.getElementsByTagNameNS('*', 'trk')[0];
+  if (!track) {
+    throw new Error('No track found in GPX file');
+  }
+
+  const points: TrackPoint[] = [];
+  for (const trkpt of Array.from(track.getElementsByTagNameNS('*', 'trkpt'))) {
+    const time = child(trkpt, 'time')?.textContent?.trim();
+    const timestamp = time ? new Date(time).getTime() : NaN;
+    // Routes drawn in a planner have no times and can't become activities
+    if (isNaN(timestamp)) continue;
+    points.push({
+      time: timestamp,
+      lat: parseFloat(trkpt.getAttribute('lat') || ''),
+      lng: parseFloat(trkpt.getAttribute('lon') || ''),
+      altitude: childNumber(trkpt, 'ele'),
+      heartrate: childNumber(trkpt, 'hr'),
+      cadence: childNumber(trkpt, 'cad'),
+      watts: childNumber(trkpt, 'power') ?? childNumber(trkpt, 'PowerInWatts'),
+    });
+  }
+  if (points.length === 0) {
+    throw new Error('GPX track has no timed points');
+  }
+
+  const trackType = child(track, 'type')?.textContent?.trim().toLowerCase() || '';
+  return buildTrackActivity(points, {
+    name: child(track, 'name')?.textContent?.trim() || undefined,
+    type: GPX_TYPES[trackType] || 'Other',
+    deviceName: doc.documentElement.getAttribute('creator') || undefined,
+  }, fileName);
+}
+
+const TCX_SPORTS: Record<string, string> = {
+  running: 'running',
+  biking: 'cycling',
+  other: 'other',
+};
+
+/**
+ * Garmin Training Center files: every Lap's Track/Trackpoints become one
+ * set of streams, and each Lap also becomes an entry in `laps`.
+ */
+export function parseTcx(text: string, fileName: string): ParsedFitActivity {
+  const doc = parseXml(text, 'TCX');
+  const activity = doc.getElementsByTagNameNS('*', 'Activity')[0];
+  if (!activity) {
+    throw new Error('No activity found in TCX file');
+  }
+
+  const lapElements = Array.from(activity.children).filter(c => c.localName === 'Lap');
+  const points: TrackPoint[] = [];
+  const lapStarts: number[] = [];
+  for (const lap of lapElements) {
+    lapStarts.push(new Date(lap.getAttribute('StartTime') || '').getTime());
+    for (const trackpoint of Array.from(lap.getElementsByTagNameNS('*', 'Trackpoint'))) {
+      const timestamp = new Date(child(trackpoint, 'Time')?.textContent?.trim() || '').getTime();
+      if (isNaN(timestamp)) continue;
+      const position = directChild(trackpoint, 'Position');
+      const heartRate = directChild(trackpoint, 'HeartRateBpm');
+      points.push({
+        time: timestamp,
+        distance: toNumber(directChild(trackpoint, 'DistanceMeters')),
+        lat: position ? childNumber(position, 'LatitudeDegrees') : undefined,
+        lng: position ? childNumber(position, 'LongitudeDegrees') : undefined,
+        altitude: toNumber(directChild(trackpoint, 'AltitudeMeters')),
+        heartrate: heartRate ? childNumber(heartRate, 'Value') : undefined,
+        // Bike cadence is a plain element, run cadence sits in the TPX extension
+        cadence: toNumber(directChild(trackpoint, 'Cadence')) ?? childNumber(trackpoint, 'RunCadence'),
+        watts: childNumber(trackpoint, 'Watts'),
+      });
+    }
+  }
+  if (points.length === 0) {
+    throw new Error('TCX file has no timed trackpoints');
+  }
+
+  const sport = TCX_SPORTS[(activity.getAttribute('Sport') || '').toLowerCase()] || 'other';
+  const creator = child(activity, 'Creator');
+  const parsed = buildTrackActivity(points, {
+    type: SPORT_TYPES[sport],
+    deviceName: creator ? directChild(creator, 'Name')?.textContent?.trim() : undefined,
+  }, fileName);
+
+  // Laps in the Strava API's shape, with indices into the streams
+  const start = new Date(parsed.summary.start_date).getTime();
+  // Laps share the activity's offset, even one that crosses a DST change
+  const localOffset = Date.parse(parsed.summary.start_date_local) - start;
+  const time = parsed.details.streams!.time!;
+  const indexAt = (timestamp: number) => {
+    const index = time.findIndex(t => start + t * 1000 >= timestamp);
+    return index < 0 ? time.length - 1 : index;
+  };
+  parsed.details.laps = lapElements.map((lap, i) => {
+    const lapStart = isNaN(lapStarts[i]) ? start : lapStarts[i];
+    const startIndex = indexAt(lapStart);
+    const endIndex = i < lapElements.length - 1 ? Math.max(startIndex, indexAt(lapStarts[i + 1]) - 1) : time.length - 1;
+    const distance = toNumber(directChild(lap, 'DistanceMeters')) ?? 0;
+    const movingTime = toNumber(directChild(lap, 'TotalTimeSeconds')) ?? 0;
+    const averageHr = directChild(lap, 'AverageHeartRateBpm');
+    const maxHr = directChild(lap, 'MaximumHeartRateBpm');
+    return {
+      name: `Lap ${i + 1}`,
+      lap_index: i + 1,
+      start_date: new Date(lapStart).toISOString(),
+      start_date_local: new Date(lapStart + localOffset).toISOString(),
+      elapsed_time: Math.round(movingTime),
+      moving_time: Math.round(movingTime),
+      distance,
+      start_index: startIndex,
+      end_index: endIndex,
+      average_speed: movingTime > 0 ? distance / movingTime : 0,
+      max_speed: toNumber(directChild(lap, 'MaximumSpeed')),
+      average_heartrate: averageHr ? childNumber(averageHr, 'Value') : undefined,
+      max_heartrate: maxHr ? childNumber(maxHr, 'Value') : undefined,
+      average_cadence: toNumber(directChild(lap, 'Cadence')),
+      calories: toNumber(directChild(lap, 'Calories')),
+    };
+  });
+
+  const calories = parsed.details.laps.reduce((sum, lap) => sum + (lap.calories || 0), 0);
+  if (calories > 0) parsed.details.calories = calories;
+  return parsed;
+}
+
+/**
+ * Turn timed track points into a device activity. Distance, speed, moving
+ * time and elevation gain are worked out from the points themselves, since
+ * track formats don't carry the totals a FIT session does.
+ */
+export function buildTrackActivity(points: TrackPoint[], info: TrackInfo, fileName: string): ParsedFitActivity {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  const start = sorted[0].time;
+  const time = sorted.map(p => (p.time - start) / 1000);
+
+  // Points without a fix (common at the start of TCX files) take the nearest one
+  const positions = fillGaps(sorted.map(p =>
+    p.lat !== undefined && p.lng !== undefined && !isNaN(p.lat) && !isNaN(p.lng) ? [p.lat, p.lng] as [number, number] : undefined
+  ));
+  const altitude = fillGaps(sorted.map(p => p.altitude));
+
+  // A device's own distance beats one measured along a noisy GPS track
+  const deviceDistance = fillGaps(sorted.map(p => p.distance));
+
+  const distance: number[] = [];
+  const rawSpeed: number[] = [];
+  let total = 0;
+  let movingTime = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const step = i === 0 ? 0
+      : deviceDistance ? Math.max(0, deviceDistance[i] - deviceDistance[i - 1])
+      : positions ? haversineDistance(positions[i - 1][0], positions[i - 1][1], positions[i][0], positions[i][1])
+      : 0;
+    const seconds = i > 0 ? time[i] - time[i - 1] : 0;
+    const velocity = seconds > 0 ? step / seconds : 0;
+    if (velocity >= MOVING_SPEED) movingTime += seconds;
+    total += step;
+    distance.push(total);
+    rawSpeed.push(velocity);
+  }
+  // Point-to-point GPS speed is jumpy; average it over a few points
+  const speed = rawSpeed.map((_, i) => average(rawSpeed.slice(Math.max(0, i - 2), i + 3))!);
+
+  let elevationGain = 0;
+  if (altitude) {
+    let reference = altitude[0];
+    for (const value of altitude) {
+      if (Math.abs(value - reference) >= ELEVATION_THRESHOLD) {
+        if (value > reference) elevationGain += value - reference;
+        reference = value;
+      }
+    }
+  }
+
+  // Sensor values stay aligned with time; gaps repeat the last reading
+  const sensor = (key: 'heartrate' | 'cadence' | 'watts') => {
+    if (!sorted.some(p => p[key] !== undefined)) return undefined;
+    let previous = 0;
+    return sorted.map(p => (previous = p[key] ?? previous));
+  };
+  const heartrate = sensor('heartrate');
+  const cadence = sensor('cadence');
+  const watts = sensor('watts');
+
+  const elapsedTime = time[time.length - 1];
+  // Without positions or distance there is no way to tell stops apart
+  if (!positions && !deviceDistance) movingTime = elapsedTime;
+  const startDate = new Date(start).toISOString();
+  const avgHr = average(heartrate?.filter(v => v > 0) || []);
+  const avgWatts = average(watts || []);
+
+  const summary: Activity = {
+    id: crypto.randomUUID(),
+    source: 'device',
+    name: info.name || fileName.replace(/\.[^.]+$/, ''),
+    distance: total,
+    moving_time: Math.round(movingTime),
+    elapsed_time: Math.round(elapsedTime),
+    total_elevation_gain: Math.round(elevationGain * 10) / 10,
+    type: info.type,
+    start_date: startDate,
+    start_date_local: guessLocalTime(start),
+    // Lets a later Strava match put the real local time in
+    localTimeMissing: true,
+    average_speed: movingTime > 0 ? total / movingTime : 0,
+    max_speed: speed.length > 0 ? Math.max(...speed) : 0,
+    average_heartrate: avgHr,
+    max_heartrate: heartrate ? Math.max(...heartrate) : undefined,
+    average_cadence: average(cadence?.filter(v => v > 0) || []),
+    average_watts: avgWatts,
+    max_watts: watts ? Math.max(...watts) : undefined,
+    device_watts: avgWatts !== undefined,
+    has_heartrate: avgHr !== undefined,
+    elev_high: altitude ? Math.max(...altitude) : undefined,
+    elev_low: altitude ? Math.min(...altitude) : undefined,
+    kudos_count: 0,
+    comment_count: 0,
+    athlete_count: 0,
+    photo_count: 0,
+    start_latlng: positions ? positions[0] : undefined,
+    end_latlng: positions ? positions[positions.length - 1] : undefined,
+    pr_count: 0,
+    trainer: false,
+    commute: false,
+    manual: false,
+    private: false,
+    flagged: false,
+    achievement_count: 0,
+    suffer_score: 0,
+  };
+
+  const details: ActivityDetail = {
+    ...summary,
+    device_name: info.deviceName,
+    streams: {
+      time,
+      distance,
+      latlng: positions,
+      altitude,
+      velocity_smooth: speed,
+      heartrate,
+      cadence,
+      watts,
+    },
+  };
+
+  return { summary, details };
+}
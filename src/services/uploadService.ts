@@ -0,0 +1,137 @@
+import { db, DeviceFile } from './database';
+import { stravaService } from './stravaService';
+import { uploadDataType } from './fitImportService';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 60;
+
+interface StravaUpload {
+  id: number;
+  status: string;
+  error: string | null;
+  activity_id: number | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Strava reports e.g. "file.fit duplicate of <a href='/activities/123'>123</a>"
+const DUPLICATE_PATTERN = /duplicate of .*?activities\/(\d+)/i;
+
+/**
+ * Uploads the original file of a device import to Strava and links the
+ * local activity to the Strava activity it becomes, so the next sync matches
+ * it by externalId instead of adding a copy.
+ */
+export class UploadService {
+  /** Device activities that still have their file and aren't on Strava yet */
+  async getUploadableIds(): Promise<string[]> {
+    const fileIds = await db.deviceFiles.toCollection().primaryKeys();
+    const activities = await db.allActivities.bulkGet(fileIds);
+    return activities
+      .filter(a => a && a.source === 'device' && a.externalId === undefined)
+      .map(a => a!.id);
+  }
+
+  async canUpload(activityId: string): Promise<boolean> {
+    const activity = await db.allActivities.get(activityId);
+    if (!activity || activity.source !== 'device' || activity.externalId !== undefined) return false;
+    return (await db.deviceFiles.where('id').equals(activityId).count()) > 0;
+  }
+
+  async getUploadState(activityId: string): Promise<Omit<DeviceFile, 'data'> | undefined> {
+    const file = await db.deviceFiles.get(activityId);
+    if (!file) return undefined;
+    const { data: _data, ...state } = file;
+    return state;
+  }
+
+  /**
+   * Upload an activity and wait for Strava to process it. An upload left
+   * processing (e.g. by closing the tab) is polled again rather than re-sent.
+   * Returns the Strava activity id.
+   */
+  async upload(activityId: string, onStatus?: (status: string) => void): Promise<number> {
+    const activity = await db.allActivities.get(activityId);
+    if (!activity) {
+      throw new Error('Activity not found');
+    }
+    if (activity.externalId !== undefined) {
+      return activity.externalId;
+    }
+    const file = await db.deviceFiles.get(activityId);
+    if (!file) {
+      throw new Error('The original file for this activity was not kept - import it again to upload');
+    }
+
+    if ((await stravaService.getMissingScopes()).includes('activity:write')) {
+      throw new Error('Strava has not granted upload access - reconnect Strava in Settings');
+    }
+
+    let uploadId = file.uploadStatus === 'processing' ? file.uploadId : undefined;
+    if (uploadId === undefined) {
+      onStatus?.('Uploading file...');
+      const form = new FormData();
+      form.append('file', new Blob([file.data]), file.fileName);
+      form.append('data_type', uploadDataType(file.fileName));
+      form.append('name', activity.name);
+      // Strava rejects a second upload with the same external_id
+      form.append('external_id', activity.id);
+
+      const response = await stravaService.makeAuthenticatedRequest('/uploads', { method: 'POST', body: form });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        await this.saveState(activityId, { uploadStatus: 'error', uploadError: detail || response.statusText });
+        throw new Error(`Upload failed: ${response.status === 401 || response.status === 403 ? 'reconnect Strava to grant upload access' : response.statusText}`);
+      }
+      const created: StravaUpload = await response.json();
+      uploadId = created.id;
+      await this.saveState(activityId, { uploadId, uploadStatus: 'processing', uploadError: undefined });
+    }
+
+    for (let poll = 0; poll < MAX_POLLS; poll++) {
+      const response = await stravaService.makeAuthenticatedRequest(`/uploads/${uploadId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to check upload status: ${response.statusText}`);
+      }
+      const upload: StravaUpload = await response.json();
+      onStatus?.(upload.status);
+
+      if (upload.activity_id) {
+        await this.link(activityId, upload.activity_id);
+        return upload.activity_id;
+      }
+      if (upload.error) {
+        // Already on Strava (e.g. synced from the watch) - link to that one
+        const duplicateOf = upload.error.match(DUPLICATE_PATTERN);
+        if (duplicateOf) {
+          const stravaId = Number(duplicateOf[1]);
+          await this.link(activityId, stravaId);
+          return stravaId;
+        }
+        await this.saveState(activityId, { uploadStatus: 'error', uploadError: upload.error });
+        throw new Error(upload.error);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+
+    throw new Error('Strava is still processing the upload - try again in a few minutes');
+  }
+
+  private async saveState(activityId: string, changes: Partial<DeviceFile>): Promise<void> {
+    await db.deviceFiles.update(activityId, changes);
+  }
+
+  /**
+   * Record the Strava id on the device activity. It stays a device activity,
+   * so its own streams are kept, but sync now sees it as already stored.
+   */
+  private async link(activityId: string, stravaId: number): Promise<void> {
+    await db.transaction('rw', [db.allActivities, db.allActivityDetails, db.deviceFiles], async () => {
+      await db.allActivities.update(activityId, { externalId: stravaId });
+      await db.allActivityDetails.update(activityId, { externalId: stravaId });
+      await db.deviceFiles.update(activityId, { uploadStatus: 'done', uploadError: undefined, uploadedAt: Date.now() });
+    });
+  }
+}
+
+export const uploadService = new UploadService();
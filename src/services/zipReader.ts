@@ -0,0 +1,108 @@
+import { inflateSync } from 'fflate';
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_COMMENT = 0xffff;
+
+const readBytes = async (file: Blob, start: number, length: number): Promise<DataView> =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+const getUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+/**
+ * Minimal ZIP reader for large archives. Only the central directory is read
+ * up front; each entry is sliced out of the file and inflated on demand, so
+ * multi-gigabyte exports never have to fit in memory at once.
+ */
+export async function listZipEntries(file: Blob): Promise<ZipEntry[]> {
+  // End of central directory record, possibly followed by a comment
+  const tailLength = Math.min(file.size, 22 + MAX_COMMENT + 20);
+  const tailStart = file.size - tailLength;
+  const tail = await readBytes(file, tailStart, tailLength);
+  let eocd = -1;
+  for (let i = tailLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP file');
+  }
+
+  let count = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB keep the real values in a ZIP64 record
+  if (eocd >= 20 && tail.getUint32(eocd - 20, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64 = await readBytes(file, getUint64(tail, eocd - 12), 56);
+    count = getUint64(zip64, 32);
+    directorySize = getUint64(zip64, 40);
+    directoryOffset = getUint64(zip64, 48);
+  }
+
+  const directory = await readBytes(file, directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const entry: ZipEntry = {
+      name: decoder.decode(new Uint8Array(directory.buffer, pos + 46, nameLength)),
+      method: directory.getUint16(pos + 10, true),
+      compressedSize: directory.getUint32(pos + 20, true),
+      size: directory.getUint32(pos + 24, true),
+      headerOffset: directory.getUint32(pos + 42, true),
+    };
+
+    // ZIP64 extra field holds whichever values overflowed, in this order
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (entry.size === 0xffffffff) { entry.size = getUint64(directory, field); field += 8; }
+        if (entry.compressedSize === 0xffffffff) { entry.compressedSize = getUint64(directory, field); field += 8; }
+        if (entry.headerOffset === 0xffffffff) { entry.headerOffset = getUint64(directory, field); }
+      }
+      extra += 4 + length;
+    }
+
+    entries.push(entry);
+    pos = extraEnd + commentLength;
+  }
+  return entries;
+}
+
+export async function readZipEntry(file: Blob, entry: ZipEntry): Promise<Uint8Array> {
+  const header = await readBytes(file, entry.headerOffset, 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+  // The local header's name/extra lengths can differ from the central directory's
+  const dataStart = entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = new Uint8Array(await file.slice(dataStart, dataStart + entry.compressedSize).arrayBuffer());
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflateSync(data, { out: new Uint8Array(entry.size) });
+  throw new Error(`Unsupported compression in ${entry.name}`);
+}
@@ -0,0 +1,15 @@
+// jsdom lacks a few browser APIs the services rely on; fill them in from Node
+import 'fake-indexeddb/auto';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { deserialize, serialize } from 'v8';
+
+if (typeof globalThis.structuredClone === 'undefined') {
+  globalThis.structuredClone = <T>(value: T): T => deserialize(serialize(value));
+}
+if (typeof globalThis.crypto?.randomUUID === 'undefined') {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+if (typeof globalThis.TextDecoder === 'undefined') {
+  Object.assign(globalThis, { TextDecoder, TextEncoder });
+}
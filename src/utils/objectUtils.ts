@@ -0,0 +1,17 @@
+/**
+ * Small typed helpers for working with objects field by field
+ */
+
+/**
+ * Copy the listed fields into a new object
+ * @param source - Object to read from
+ * @param keys - Fields to copy
+ * @returns Object with just those fields
+ */
+export const pickFields = <T extends object, K extends keyof T>(source: T, keys: readonly K[]): Pick<T, K> => {
+  const picked = {} as Pick<T, K>;
+  keys.forEach(key => {
+    picked[key] = source[key];
+  });
+  return picked;
+};
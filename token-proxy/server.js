@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+/**
+ * Reference Strava token-exchange proxy. It holds the app's client secret so
+ * the browser only ever sees access and refresh tokens.
+ *
+ *   STRAVA_CLIENT_ID=123 STRAVA_CLIENT_SECRET=... ALLOWED_ORIGINS=https://app.example.com node token-proxy/server.js
+ *
+ * The app POSTs { grant_type, code } or { grant_type, refresh_token } to
+ * /token; the proxy adds the credentials and relays Strava's response.
+ * No dependencies; needs Node 18+ for fetch.
+ */
+const http = require('http');
+
+const PORT = Number(process.env.PORT || 8787);
+const CLIENT_ID = process.env.STRAVA_CLIENT_ID;
+const CLIENT_SECRET = process.env.STRAVA_CLIENT_SECRET;
+const TOKEN_URL = process.env.STRAVA_TOKEN_URL || 'https://www.strava.com/oauth/token';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const MAX_BODY_BYTES = 10 * 1024;
+
+const GRANTS = {
+  authorization_code: 'code',
+  refresh_token: 'refresh_token',
+};
+
+if (!CLIENT_ID || !CLIENT_SECRET) {
+  console.error('Set STRAVA_CLIENT_ID and STRAVA_CLIENT_SECRET');
+  process.exit(1);
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = req => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => {
+    data += chunk;
+    if (data.length > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(data || '{}'));
+    } catch {
+      reject(new Error('Invalid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  } else if (origin) {
+    // Browsers from other sites must not be able to use our client credentials
+    return send(res, 403, { message: 'Origin not allowed' });
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  if (req.method !== 'POST' || req.url !== '/token') {
+    return send(res, 404, { message: 'Not found' });
+  }
+
+  let body;
+  try {
+    body = await readJson(req);
+  } catch (error) {
+    return send(res, 400, { message: error.message });
+  }
+
+  // Only forward the two grants the app uses, with nothing but their own field
+  const field = GRANTS[body.grant_type];
+  if (!field || typeof body[field] !== 'string' || !body[field]) {
+    return send(res, 400, { message: 'Expected grant_type authorization_code with code, or refresh_token with refresh_token' });
+  }
+
+  try {
+    const response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        grant_type: body.grant_type,
+        [field]: body[field],
+      }),
+    });
+    const text = await response.text();
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(text);
+  } catch (error) {
+    console.error('Token request failed:', error);
+    send(res, 502, { message: 'Could not reach Strava' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Token proxy listening on http://localhost:${PORT}/token`);
+  console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+});